@@ -6,6 +6,7 @@
  */
 
 /// <reference types="@saltyrtc/client" />
+/// <reference lib="es2018.asynciterable" />
 
 declare namespace saltyrtc.tasks.webrtc {
     type Offer = RTCSessionDescriptionInit;
@@ -22,9 +23,31 @@ declare namespace saltyrtc.tasks.webrtc {
          * Encrypt data to be sent on the channel.
          *
          * @param data The bytes to be encrypted.
+         *
+         * @throws CsnExhaustedError in case all combined sequence numbers
+         *   have been used up.
          */
         encrypt(data: Uint8Array): saltyrtc.Box;
 
+        /**
+         * Encrypt data to be sent on the channel and write the nonce
+         * followed by the encrypted data into `target`.
+         *
+         * Note: The default backend encrypts directly into `target` for
+         *       derived keys only. Data encrypted with the session key of
+         *       the signalling is copied into `target`.
+         *
+         * @param data The bytes to be encrypted.
+         * @param target The buffer to write into. Must have room for at least
+         *   `data.byteLength + OVERHEAD_LENGTH` bytes.
+         * @returns The amount of bytes written.
+         *
+         * @throws Error in case the target buffer is too small.
+         * @throws CsnExhaustedError in case all combined sequence numbers
+         *   have been used up.
+         */
+        encryptInto(data: Uint8Array, target: Uint8Array): number;
+
         /**
          * Decrypt data received on the channel.
          *
@@ -33,6 +56,158 @@ declare namespace saltyrtc.tasks.webrtc {
          * @throws ValidationError in case the nonce is invalid.
          */
         decrypt(box: saltyrtc.Box): Uint8Array;
+
+        /**
+         * Decrypt a message received on the channel which consists of the
+         * nonce followed by the encrypted data without copying it.
+         *
+         * @param view The message.
+         *
+         * @throws ValidationError in case the message is too short or the
+         *   nonce is invalid.
+         */
+        decryptFrom(view: Uint8Array): Uint8Array;
+
+        /**
+         * Rotate the outgoing key. The new key will be used once the peer
+         * acknowledged it.
+         *
+         * @throws Error in case key rotation has not been negotiated.
+         */
+        rotateKey(): void;
+    }
+
+    /**
+     * Like `DataChannelCryptoContext` but with an asynchronous API. Results
+     * are delivered in the order in which `encrypt` and `decrypt` have been
+     * called.
+     */
+    interface AsyncDataChannelCryptoContext {
+        encrypt(data: Uint8Array): Promise<saltyrtc.Box>;
+        decrypt(box: saltyrtc.Box): Promise<Uint8Array>;
+        rotateKey(): void;
+    }
+
+    /**
+     * The subset of the `Worker` and `MessagePort` interfaces required to
+     * communicate with a crypto worker.
+     */
+    interface WorkerEndpoint {
+        onmessage: ((event: MessageEvent) => any) | null;
+        postMessage(message: any, transfer: Transferable[]): void;
+    }
+
+    /**
+     * Sends crypto operations in batches to a Web Worker.
+     *
+     * Note: The session key of the signalling cannot be processed by the
+     *       worker. Therefore, `WebRTCTask.createWorkerCryptoContext`
+     *       requires key rotation to be negotiated (i.e. enabled by both
+     *       peers).
+     */
+    interface CryptoWorker {
+        encrypt(data: Uint8Array, nonce: Uint8Array, key: Uint8Array): Promise<Uint8Array>;
+        decrypt(
+            data: Uint8Array, nonce: Uint8Array, keys: Uint8Array[]): Promise<Uint8Array | null>;
+        close(): void;
+    }
+
+    interface CryptoWorkerStatic {
+        /**
+         * Maximum amount of operations sent to the worker in a single batch.
+         */
+        readonly MAX_BATCH_SIZE: number;
+
+        new(endpoint: WorkerEndpoint): CryptoWorker;
+    }
+
+    /**
+     * Processes crypto operations within a Web Worker.
+     */
+    type ServeCryptoWorker = (endpoint: WorkerEndpoint) => void;
+
+    /**
+     * Thrown by a crypto context once all combined sequence numbers have
+     * been used up.
+     */
+    interface CsnExhaustedError extends Error {
+        readonly channelId: number;
+    }
+
+    /**
+     * Replay protection mode of a `DataChannelCryptoContext`:
+     *
+     * - `consecutive`: Only rejects a combined sequence number that is
+     *   identical to the previous one.
+     * - `strict`: Requires strictly increasing combined sequence numbers.
+     *   Should be used for reliable/ordered data channels.
+     * - `window`: Tracks recently seen combined sequence numbers in a sliding
+     *   window and rejects duplicates as well as combined sequence numbers
+     *   that fall behind the window. Should be used for unreliable/unordered
+     *   data channels.
+     */
+    type ReplayProtection = 'consecutive' | 'strict' | 'window';
+
+    /**
+     * The authenticated encryption primitive used by a
+     * `DataChannelCryptoContext` (XSalsa20-Poly1305, i.e. NaCl's secret box).
+     *
+     * A key of `null` refers to the session key of the signalling. Other keys
+     * are 32 bytes long and have been derived by key rotation. The nonce is
+     * always 24 bytes long.
+     */
+    interface DataChannelCryptoBackend {
+        /**
+         * Encrypt data and return the encrypted data (including the
+         * authenticator).
+         */
+        encrypt(data: Uint8Array, nonce: Uint8Array, key: Uint8Array | null): Uint8Array;
+
+        /**
+         * Optional. Encrypt data and write the encrypted data (including the
+         * authenticator) into `target` at offset `nonce.byteLength`. The
+         * bytes preceding that offset may be used as scratch space since the
+         * nonce will be written afterwards. `data` must not overlap with
+         * `target`. Return the amount of encrypted bytes written.
+         *
+         * If not provided, the result of `encrypt` will be copied into
+         * `target`.
+         */
+        encryptInto?(
+            data: Uint8Array, nonce: Uint8Array, key: Uint8Array | null, target: Uint8Array,
+        ): number;
+
+        /**
+         * Decrypt data and return the decrypted data or `null` in case the
+         * data could not be decrypted. Alternatively, an error may be thrown.
+         */
+        decrypt(data: Uint8Array, nonce: Uint8Array, key: Uint8Array | null): Uint8Array | null;
+    }
+
+    interface DataChannelCryptoContextOptions {
+        /**
+         * Defaults to `consecutive`.
+         */
+        replayProtection?: ReplayProtection;
+
+        /**
+         * The amount of combined sequence numbers tracked when the replay
+         * protection mode is `window`. Defaults to 1024.
+         */
+        replayWindowSize?: number;
+
+        /**
+         * Defaults to a backend using the session key of the signalling.
+         */
+        backend?: DataChannelCryptoBackend;
+    }
+
+    /**
+     * A data channel id allocated by the task along with its crypto context.
+     */
+    interface AllocatedChannel {
+        readonly id: number;
+        readonly crypto: DataChannelCryptoContext;
     }
 
     interface DataChannelCryptoContextStatic {
@@ -45,6 +220,156 @@ declare namespace saltyrtc.tasks.webrtc {
          * Amount of bytes used for the nonce.
          */
         readonly NONCE_LENGTH: number;
+
+        /**
+         * The highest combined sequence number that can be used to encrypt
+         * a message.
+         */
+        readonly MAX_CSN: number;
+    }
+
+    /**
+     * The subset of the `RTCDataChannel` interface required to wrap a data
+     * channel with a `SecureDataChannel`.
+     */
+    interface DataChannelLike {
+        readonly id: number | null;
+        readonly label: string;
+        readonly ordered?: boolean;
+        binaryType: BinaryType;
+        onmessage: ((event: MessageEvent) => any) | null;
+        onclose: ((event: Event) => any) | null;
+        onerror: ((event: Event) => any) | null;
+        send(data: ArrayBufferView): void;
+        close(): void;
+    }
+
+    /**
+     * Wraps a data channel and encrypts/decrypts all messages by the use of
+     * a `DataChannelCryptoContext`. Messages of arbitrary size are
+     * transparently chunked and reassembled.
+     *
+     * Events:
+     *
+     * - `message`: A message has been received and decrypted. The event data
+     *   is either a `Uint8Array` or a `string`, depending on what the remote
+     *   peer sent.
+     * - `close`: The underlying data channel has been closed.
+     * - `error`: An error occurred (e.g. an incoming message exceeded the
+     *   maximum message size). The event data contains the cause.
+     */
+    interface SecureDataChannel {
+        readonly id: number | null;
+        readonly label: string;
+
+        /**
+         * Encrypt and send a message on the underlying data channel.
+         *
+         * @param data The bytes or the string to be sent.
+         */
+        send(data: Uint8Array | string): void;
+
+        /**
+         * Close the underlying data channel.
+         */
+        close(): void;
+
+        // Events
+        on(event: string | string[], handler: saltyrtc.SaltyRTCEventHandler): void;
+        once(event: string | string[], handler: saltyrtc.SaltyRTCEventHandler): void;
+        off(event?: string | string[], handler?: saltyrtc.SaltyRTCEventHandler): void;
+    }
+
+    interface SecureDataChannelStatic {
+        new(dc: DataChannelLike, crypto: DataChannelCryptoContext | AsyncDataChannelCryptoContext,
+            logLevel?: saltyrtc.LogLevel, maxChunkLength?: number,
+            queueLimits?: {maxMessages: number, maxBytes: number},
+            maxMessageSize?: number): SecureDataChannel;
+    }
+
+    /**
+     * A source of bytes: Either a `ReadableStream` or an async iterable
+     * yielding `Uint8Array` chunks.
+     */
+    type StreamSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+    /**
+     * An async iterable of `Uint8Array` chunks.
+     */
+    interface CryptoStream extends AsyncIterable<Uint8Array> {
+        [Symbol.asyncIterator](): CryptoStream;
+        next(): Promise<IteratorResult<Uint8Array>>;
+        return(): Promise<IteratorResult<Uint8Array>>;
+    }
+
+    /**
+     * Yields serialised boxes containing the encrypted stream frames.
+     */
+    interface EncryptingStream extends CryptoStream {}
+
+    interface EncryptingStreamStatic {
+        /**
+         * Default maximum amount of bytes of the source per frame.
+         */
+        readonly DEFAULT_CHUNK_LENGTH: number;
+
+        new(crypto: DataChannelCryptoContext, source: StreamSource,
+            chunkLength?: number): EncryptingStream;
+    }
+
+    /**
+     * Yields the decrypted bytes of the stream frames.
+     */
+    interface DecryptingStream extends CryptoStream {}
+
+    interface DecryptingStreamStatic {
+        new(crypto: DataChannelCryptoContext, source: StreamSource): DecryptingStream;
+    }
+
+    /**
+     * The subset of the `RTCPeerConnection` interface required by the
+     * `PeerConnectionBinder`.
+     */
+    interface PeerConnectionLike {
+        readonly signalingState: RTCSignalingState;
+        readonly remoteDescription: RTCSessionDescriptionInit | null;
+        onicecandidate: ((event: RTCPeerConnectionIceEvent) => any) | null;
+        createOffer(): Promise<RTCSessionDescriptionInit>;
+        createAnswer(): Promise<RTCSessionDescriptionInit>;
+        setLocalDescription(description: RTCSessionDescriptionInit): Promise<void>;
+        setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void>;
+        addIceCandidate(candidate: Candidate): Promise<void>;
+    }
+
+    /**
+     * Drives a peer connection through the offer/answer and ICE candidate
+     * exchange of a `WebRTCTask`.
+     */
+    interface PeerConnectionBinder {
+        /**
+         * Create an offer, apply it as the local description and send it to
+         * the remote peer.
+         *
+         * @returns a promise that resolves once the answer of the remote peer
+         *   has been applied.
+         */
+        offer(): Promise<void>;
+
+        /**
+         * Return a promise that resolves once the current (or next)
+         * negotiation has been completed or rejects if it failed.
+         */
+        whenNegotiated(): Promise<void>;
+
+        /**
+         * Unbind from all task and peer connection events.
+         */
+        unbind(): void;
+    }
+
+    interface PeerConnectionBinderStatic {
+        new(task: WebRTCTask, pc: PeerConnectionLike,
+            logLevel?: saltyrtc.LogLevel): PeerConnectionBinder;
     }
 
     /**
@@ -62,6 +387,14 @@ declare namespace saltyrtc.tasks.webrtc {
          */
         readonly maxMessageSize: number;
 
+        /**
+         * Optional. Will be called to retrieve the amount of bytes currently
+         * queued on the underlying data channel. If provided, sending will be
+         * paused once the buffered amount reached a high water mark (1 MiB)
+         * until `SignalingTransportLink.bufferedAmountLow` has been called.
+         */
+        readonly bufferedAmount?: number;
+
         /**
          * Will be called to start the closing procedure of the underlying data
          * channel.
@@ -106,12 +439,26 @@ declare namespace saltyrtc.tasks.webrtc {
          */
         readonly protocol: string;
 
+        /**
+         * Should be used as `bufferedAmountLowThreshold` of the
+         * `RTCDataChannel` if the handler provides `bufferedAmount`.
+         */
+        readonly bufferedAmountLowThreshold: number;
+
         /**
          * Must be called when the underlying data channel has moved into the
          * `closed` state.
          */
         closed(): void;
 
+        /**
+         * Must be called when the underlying data channel's buffered amount
+         * dropped to or below `bufferedAmountLowThreshold` (i.e. on the
+         * `bufferedamountlow` event) if the handler provides
+         * `bufferedAmount`.
+         */
+        bufferedAmountLow(): void;
+
         /**
          * Must be called when a message has been received on the underlying
          * data channel.
@@ -123,26 +470,212 @@ declare namespace saltyrtc.tasks.webrtc {
         receive(message: Uint8Array): void;
     }
 
+    /**
+     * - `chunk-error`: An invalid chunk has been received.
+     * - `decrypt-error`: A message could not be decrypted or its nonce is
+     *   invalid.
+     * - `send-error`: The handler failed to send a chunk.
+     * - `remote-closed`: The data channel has been closed by the remote side.
+     * - `limit-exceeded`: Incoming messages exceeded the configured limits
+     *   or outgoing messages exceeded the send queue limit.
+     * - `message-too-large`: An incoming message exceeded the maximum
+     *   message size.
+     */
+    type SignalingTransportErrorKind = 'chunk-error' | 'decrypt-error' | 'send-error'
+        | 'remote-closed' | 'limit-exceeded' | 'message-too-large';
+
+    /**
+     * Describes why a signalling transport failed.
+     */
+    interface SignalingTransportError extends Error {
+        readonly kind: SignalingTransportErrorKind;
+        // The underlying error (if any)
+        readonly cause: any;
+    }
+
+    /**
+     * Counters of a signalling transport. Bytes are counted on chunk level,
+     * i.e. they include encryption and chunking overhead.
+     */
+    interface SignalingTransportCounters {
+        messagesSent: number;
+        chunksSent: number;
+        bytesSent: number;
+        messagesReceived: number;
+        chunksReceived: number;
+        bytesReceived: number;
+        // Messages received before the remote peer requested handover
+        queuedMessages: number;
+        decryptFailures: number;
+        chunkErrors: number;
+    }
+
+    /**
+     * Statistics of the handed over signalling channel.
+     */
+    interface SignalingTransportStats extends SignalingTransportCounters {
+        // Time (in milliseconds since the epoch) when handover completed
+        handoverTime: number | null;
+    }
+
+    /**
+     * The subset of the `RTCPeerConnection` interface required by
+     * `createDataChannelHandler`.
+     */
+    interface DataChannelPeerConnectionLike {
+        readonly sctp?: { readonly maxMessageSize: number } | null;
+        createDataChannel(label: string, options?: RTCDataChannelInit): RTCDataChannel;
+    }
+
+    type CreateDataChannelHandler = (
+        pc: DataChannelPeerConnectionLike, link: SignalingTransportLink,
+    ) => Promise<SignalingTransportHandler>;
+
+    /**
+     * Describes why a field of a task message is invalid.
+     */
+    interface MessageValidationError {
+        /**
+         * Path of the offending field, e.g. `candidates[0].sdpMid`.
+         */
+        path: string;
+
+        /**
+         * Human readable reason why the field is invalid.
+         */
+        reason: string;
+    }
+
     type WebRTCTaskVersion = 'v1' | 'v0';
 
+    type DescriptionDirection = 'outgoing' | 'incoming';
+
+    /**
+     * Transforms a description before it is being sent to or after it has
+     * been received from the peer. Receives a copy of the description and
+     * returns the (modified) description. To reject the description, throw an
+     * error whose message describes the reason.
+     */
+    type DescriptionTransform = (description: RTCSessionDescriptionInit) => RTCSessionDescriptionInit;
+
+    /**
+     * Decides whether a candidate should be kept (`true`) or dropped
+     * (`false`).
+     */
+    type CandidateFilter = (candidate: RTCIceCandidateInit) => boolean;
+
+    /**
+     * A collection of commonly used candidate filters. All filters drop
+     * malformed candidates.
+     */
+    interface CandidateFiltersStatic {
+        /**
+         * Only keep relayed candidates.
+         */
+        readonly relayOnly: CandidateFilter;
+
+        /**
+         * Drop host candidates with a private, shared (CGNAT), loopback or
+         * link-local IP address, including IPv4-mapped IPv6 addresses.
+         */
+        readonly noPrivateHost: CandidateFilter;
+
+        /**
+         * Drop candidates with an mDNS hostname.
+         */
+        readonly noMdns: CandidateFilter;
+
+        /**
+         * Drop TCP candidates.
+         */
+        readonly noTcp: CandidateFilter;
+
+        /**
+         * Combine filters. A candidate will only be kept if all filters keep
+         * it.
+         */
+        all(...filters: CandidateFilter[]): CandidateFilter;
+    }
+
+    /**
+     * Returns the (modified) candidate to be sent.
+     */
+    type CandidateTransform = (candidate: RTCIceCandidateInit) => RTCIceCandidateInit;
+
+    /**
+     * A collection of commonly used candidate transforms.
+     */
+    interface CandidateTransformsStatic {
+        /**
+         * Replace the related address and port of server reflexive and
+         * relayed candidates with `0.0.0.0` and `0`.
+         */
+        readonly redactRelatedAddress: CandidateTransform;
+    }
+
+    /**
+     * Determines how malformed or unexpected messages from the peer are
+     * handled:
+     *
+     * - `ignore`: Discard the message.
+     * - `emit-event`: Discard the message and emit a `validation-error` or
+     *   `protocol-error` event.
+     * - `reset`: Reset the connection with the close code `ProtocolError`.
+     *
+     * By default, unexpected `handover` and `handover-abort` messages reset
+     * the connection and all other protocol errors emit an event.
+     */
+    type ProtocolErrorPolicy = 'ignore' | 'emit-event' | 'reset';
+
     interface WebRTCTaskBuilder {
         withLoggingLevel(level: saltyrtc.LogLevel): WebRTCTaskBuilder;
         withVersion(version: WebRTCTaskVersion): WebRTCTaskBuilder;
         withHandover(on: boolean): WebRTCTaskBuilder;
         withMaxChunkLength(length: number): WebRTCTaskBuilder;
+        withReliableOrderedChunking(on: boolean): WebRTCTaskBuilder;
+        withPerfectNegotiation(on: boolean): WebRTCTaskBuilder;
+        withProtocolErrorPolicy(policy: ProtocolErrorPolicy): WebRTCTaskBuilder;
+        withCandidateBufferingWindow(ms: number): WebRTCTaskBuilder;
+        withMaxCandidateBatchSize(size: number): WebRTCTaskBuilder;
+        withCandidateFilter(
+            filter: CandidateFilter | null, applyToIncoming?: boolean): WebRTCTaskBuilder;
+        withCandidateTransform(transform: CandidateTransform | null): WebRTCTaskBuilder;
+        withHandoverTimeout(ms: number): WebRTCTaskBuilder;
+        withIncomingQueueLimits(maxMessages: number, maxBytes: number): WebRTCTaskBuilder;
+        withMaxMessageSize(size: number): WebRTCTaskBuilder;
+        withKeyRotation(maxMessages: number, maxAgeMs?: number): WebRTCTaskBuilder;
+        withCsnWarningThreshold(threshold: number): WebRTCTaskBuilder;
         build(): WebRTCTask;
     }
 
     interface WebRTCTask extends saltyrtc.Task {
         readonly version: saltyrtc.tasks.webrtc.WebRTCTaskVersion;
+        readonly perfectNegotiation: boolean;
+        readonly polite: boolean;
 
         sendOffer(offer: RTCSessionDescriptionInit): void;
         sendAnswer(answer: RTCSessionDescriptionInit): void;
         sendCandidate(candidate: Candidate): void;
         sendCandidates(candidates: Candidate[]): void;
+        flushCandidates(): void;
+        addDescriptionTransform(
+            direction: DescriptionDirection, transform: DescriptionTransform): void;
+        removeDescriptionTransform(
+            direction: DescriptionDirection, transform: DescriptionTransform): void;
         getTransportLink(): SignalingTransportLink;
         handover(handler: SignalingTransportHandler): void;
-        createCryptoContext(channelId: number): DataChannelCryptoContext;
+        whenHandoverComplete(): Promise<void>;
+        getStats(): SignalingTransportStats;
+        createCryptoContext(
+            channelId: number, options?: DataChannelCryptoContextOptions): DataChannelCryptoContext;
+        allocateChannel(options?: DataChannelCryptoContextOptions): AllocatedChannel;
+        releaseChannel(channelId: number): void;
+        createWorkerCryptoContext(
+            channelId: number, worker: CryptoWorker,
+            options?: DataChannelCryptoContextOptions): AsyncDataChannelCryptoContext;
+        createSecureDataChannel(
+            dc: DataChannelLike,
+            crypto?: DataChannelCryptoContext | AsyncDataChannelCryptoContext): SecureDataChannel;
 
         // Events
         on(event: string | string[], handler: saltyrtc.SaltyRTCEventHandler): void;
@@ -163,9 +696,49 @@ declare namespace saltyrtc.tasks.webrtc {
     interface CandidatesEvent extends saltyrtc.SaltyRTCEvent {
         data: Candidate[];
     }
+    interface ValidationErrorEvent extends saltyrtc.SaltyRTCEvent {
+        data: {
+            type: string,
+            errors: MessageValidationError[],
+        };
+    }
+    interface DescriptionRejectedEvent extends saltyrtc.SaltyRTCEvent {
+        data: {
+            type: RTCSdpType,
+            reason: string,
+        };
+    }
+    interface HandoverFailedEvent extends saltyrtc.SaltyRTCEvent {
+        data: string;
+    }
+    interface TransportErrorEvent extends saltyrtc.SaltyRTCEvent {
+        data: SignalingTransportError;
+    }
+    interface CsnWarningEvent extends saltyrtc.SaltyRTCEvent {
+        data: {
+            channelId: number,
+            remaining: number,
+        };
+    }
+
+    interface ProtocolErrorEvent extends saltyrtc.SaltyRTCEvent {
+        data: {
+            type: string,
+            reason: string,
+        };
+    }
 }
 
 declare var saltyrtcTaskWebrtc: {
     WebRTCTaskBuilder: saltyrtc.tasks.webrtc.WebRTCTaskBuilderStatic,
     DataChannelCryptoContext: saltyrtc.tasks.webrtc.DataChannelCryptoContextStatic,
+    SecureDataChannel: saltyrtc.tasks.webrtc.SecureDataChannelStatic,
+    EncryptingStream: saltyrtc.tasks.webrtc.EncryptingStreamStatic,
+    DecryptingStream: saltyrtc.tasks.webrtc.DecryptingStreamStatic,
+    PeerConnectionBinder: saltyrtc.tasks.webrtc.PeerConnectionBinderStatic,
+    CandidateFilters: saltyrtc.tasks.webrtc.CandidateFiltersStatic,
+    CandidateTransforms: saltyrtc.tasks.webrtc.CandidateTransformsStatic,
+    createDataChannelHandler: saltyrtc.tasks.webrtc.CreateDataChannelHandler,
+    CryptoWorker: saltyrtc.tasks.webrtc.CryptoWorkerStatic,
+    serveCryptoWorker: saltyrtc.tasks.webrtc.ServeCryptoWorker,
 };
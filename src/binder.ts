@@ -0,0 +1,306 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path='../saltyrtc-task-webrtc.d.ts' />
+
+/**
+ * Drives a peer connection through the offer/answer and ICE candidate
+ * exchange of a WebRTC task.
+ *
+ * - Local ICE candidates are sent to the remote peer.
+ * - Remote offers are applied and answered automatically.
+ * - Remote answers are applied automatically.
+ * - Remote ICE candidates are added to the peer connection. Candidates that
+ *   arrive before the remote description has been applied are buffered.
+ *
+ * All operations on the peer connection are serialised to preserve the order
+ * in which the task's events arrived.
+ *
+ * If perfect negotiation has been enabled on the task, offer collisions that
+ * are only detectable from the peer connection's signalling state (e.g. an
+ * offer arriving while a local offer is still being created) will be
+ * resolved as well: The polite peer rolls back its local offer, the impolite
+ * peer ignores the remote offer.
+ */
+export class PeerConnectionBinder implements saltyrtc.tasks.webrtc.PeerConnectionBinder {
+    // Logging
+    private readonly log: saltyrtc.Log;
+    private logTag = '[SaltyRTC.WebRTC.PeerConnectionBinder]';
+
+    // Task and peer connection
+    private readonly task: saltyrtc.tasks.webrtc.WebRTCTask;
+    private readonly pc: saltyrtc.tasks.webrtc.PeerConnectionLike;
+
+    // Serialised peer connection operations
+    private operations: Promise<void> = Promise.resolve();
+
+    // Remote candidates received before the remote description was applied
+    private pendingCandidates: saltyrtc.tasks.webrtc.Candidate[] = [];
+
+    // Pending negotiation promises
+    private negotiationWaiters: Array<{
+        resolve: () => void,
+        reject: (error: any) => void,
+    }> = [];
+
+    // Task event handlers
+    private readonly onOffer: saltyrtc.SaltyRTCEventHandler;
+    private readonly onAnswer: saltyrtc.SaltyRTCEventHandler;
+    private readonly onCandidates: saltyrtc.SaltyRTCEventHandler;
+
+    /**
+     * Create a binder and bind to the events of the task and the peer
+     * connection.
+     *
+     * Note: This will replace the `onicecandidate` handler of the peer
+     *       connection.
+     *
+     * @param task The WebRTC task instance.
+     * @param pc The peer connection.
+     * @param logLevel The desired log level.
+     */
+    constructor(
+        task: saltyrtc.tasks.webrtc.WebRTCTask,
+        pc: saltyrtc.tasks.webrtc.PeerConnectionLike,
+        logLevel: saltyrtc.LogLevel = 'none',
+    ) {
+        this.log = new saltyrtcClient.Log(logLevel);
+        this.task = task;
+        this.pc = pc;
+
+        // Bind task events
+        this.onOffer = (event: saltyrtc.SaltyRTCEvent) => this.receiveOffer(event.data);
+        this.onAnswer = (event: saltyrtc.SaltyRTCEvent) => this.receiveAnswer(event.data);
+        this.onCandidates = (event: saltyrtc.SaltyRTCEvent) => this.receiveCandidates(event.data);
+        this.task.on('offer', this.onOffer);
+        this.task.on('answer', this.onAnswer);
+        this.task.on('candidates', this.onCandidates);
+
+        // Bind peer connection events
+        this.pc.onicecandidate = (event: RTCPeerConnectionIceEvent) => {
+            if (event.candidate === null) {
+                this.log.debug(this.logTag, 'Local ICE candidate gathering finished');
+                this.sendCandidate(null);
+            } else {
+                this.sendCandidate({
+                    candidate: event.candidate.candidate,
+                    sdpMid: event.candidate.sdpMid,
+                    sdpMLineIndex: event.candidate.sdpMLineIndex,
+                });
+            }
+        };
+    }
+
+    /**
+     * Send a local candidate to the remote peer.
+     *
+     * In case the candidate could not be sent (e.g. a candidate transform
+     * threw), all pending negotiation promises will be rejected.
+     */
+    private sendCandidate(candidate: saltyrtc.tasks.webrtc.Candidate): void {
+        try {
+            this.task.sendCandidate(candidate);
+        } catch (error) {
+            this.log.error(this.logTag, 'Unable to send candidate:', error);
+            this.failed(error);
+        }
+    }
+
+    /**
+     * Create an offer, apply it as the local description and send it to the
+     * remote peer.
+     *
+     * In case the offer could not be sent, the local description will be
+     * rolled back, so later remote offers are not mistaken for a collision.
+     *
+     * @returns a promise that resolves once the answer of the remote peer has
+     *   been applied.
+     */
+    public offer(): Promise<void> {
+        const negotiated = this.whenNegotiated();
+        this.enqueue('create offer', () => this.pc.createOffer()
+            .then((offer: RTCSessionDescriptionInit) => this.pc.setLocalDescription(offer)
+                .then(() => {
+                    this.log.debug(this.logTag, 'Created offer, set local description');
+                    try {
+                        this.task.sendOffer(offer);
+                    } catch (error) {
+                        return this.rollbackLocalOffer(error);
+                    }
+                })));
+        return negotiated;
+    }
+
+    /**
+     * Roll back a local offer that could not be sent and reject with the
+     * cause.
+     */
+    private rollbackLocalOffer(cause: any): Promise<void> {
+        this.log.warn(this.logTag, 'Rolling back local offer, sending failed:', cause);
+        return this.pc.setLocalDescription({type: 'rollback'})
+            .then(() => { throw cause; });
+    }
+
+    /**
+     * Return a promise that resolves once the current (or next) negotiation
+     * has been completed or rejects if it failed.
+     */
+    public whenNegotiated(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.negotiationWaiters.push({resolve, reject});
+        });
+    }
+
+    /**
+     * Unbind from all task and peer connection events.
+     */
+    public unbind(): void {
+        this.task.off('offer', this.onOffer);
+        this.task.off('answer', this.onAnswer);
+        this.task.off('candidates', this.onCandidates);
+        this.pc.onicecandidate = null;
+    }
+
+    /**
+     * Apply a remote offer and answer it.
+     */
+    private receiveOffer(offer: RTCSessionDescriptionInit): void {
+        this.enqueue('apply offer', () => this.resolveOfferCollision()
+            .then((ignore: boolean) => {
+                if (ignore) {
+                    return Promise.resolve();
+                }
+                return this.applyOffer(offer);
+            }));
+    }
+
+    /**
+     * Resolve a collision of a remote offer with a local offer if perfect
+     * negotiation has been enabled.
+     *
+     * @returns a promise that resolves with whether the remote offer should
+     *   be ignored.
+     */
+    private resolveOfferCollision(): Promise<boolean> {
+        if (!this.task.perfectNegotiation || this.pc.signalingState === 'stable') {
+            return Promise.resolve(false);
+        }
+        if (!this.task.polite) {
+            this.log.info(this.logTag, 'Ignoring colliding offer (impolite peer)');
+            return Promise.resolve(true);
+        }
+        this.log.info(this.logTag, 'Rolling back local offer (polite peer)');
+        return this.pc.setLocalDescription({type: 'rollback'})
+            .then(() => false);
+    }
+
+    /**
+     * Apply a remote offer and create and send an answer.
+     */
+    private applyOffer(offer: RTCSessionDescriptionInit): Promise<void> {
+        return this.pc.setRemoteDescription(offer)
+            .then(() => {
+                this.log.debug(this.logTag, 'Received offer, set remote description');
+                return this.addPendingCandidates();
+            })
+            .then(() => this.pc.createAnswer())
+            .then((answer: RTCSessionDescriptionInit) => this.pc.setLocalDescription(answer)
+                .then(() => {
+                    this.log.debug(this.logTag, 'Created answer, set local description');
+                    this.task.sendAnswer(answer);
+                    this.negotiated();
+                }));
+    }
+
+    /**
+     * Apply a remote answer.
+     */
+    private receiveAnswer(answer: RTCSessionDescriptionInit): void {
+        this.enqueue('apply answer', () => this.pc.setRemoteDescription(answer)
+            .then(() => {
+                this.log.debug(this.logTag, 'Received answer, set remote description');
+                return this.addPendingCandidates();
+            })
+            .then(() => this.negotiated()));
+    }
+
+    /**
+     * Add remote candidates or buffer them until the remote description has
+     * been applied.
+     */
+    private receiveCandidates(candidates: saltyrtc.tasks.webrtc.Candidate[]): void {
+        this.enqueue('add candidates', () => {
+            if (this.pc.remoteDescription === null) {
+                this.log.debug(this.logTag, 'Buffering', candidates.length, 'remote candidate(s)');
+                this.pendingCandidates.push(...candidates);
+                return Promise.resolve();
+            }
+            return this.addCandidates(candidates);
+        });
+    }
+
+    /**
+     * Add all buffered remote candidates.
+     */
+    private addPendingCandidates(): Promise<void> {
+        const candidates = this.pendingCandidates;
+        this.pendingCandidates = [];
+        return this.addCandidates(candidates);
+    }
+
+    /**
+     * Add remote candidates to the peer connection.
+     *
+     * Note: Failing to add a candidate is not treated as an error since the
+     *       remaining candidates may still lead to a connection.
+     */
+    private addCandidates(candidates: saltyrtc.tasks.webrtc.Candidate[]): Promise<void> {
+        return Promise.all(candidates.map((candidate) => this.pc.addIceCandidate(candidate)
+            .catch((error) => {
+                this.log.warn(this.logTag, 'Unable to add candidate:', candidate, error);
+            })))
+            .then(() => undefined);
+    }
+
+    /**
+     * Enqueue an operation on the peer connection.
+     *
+     * In case the operation fails, all pending negotiation promises will be
+     * rejected.
+     */
+    private enqueue(description: string, operation: () => Promise<void>): void {
+        this.operations = this.operations
+            .then(operation)
+            .catch((error) => {
+                this.log.error(this.logTag, `Unable to ${description}:`, error);
+                this.failed(error);
+            });
+    }
+
+    /**
+     * Resolve all pending negotiation promises.
+     */
+    private negotiated(): void {
+        this.log.debug(this.logTag, 'Negotiation complete');
+        const waiters = this.negotiationWaiters;
+        this.negotiationWaiters = [];
+        for (const waiter of waiters) {
+            waiter.resolve();
+        }
+    }
+
+    /**
+     * Reject all pending negotiation promises.
+     */
+    private failed(error: any): void {
+        const waiters = this.negotiationWaiters;
+        this.negotiationWaiters = [];
+        for (const waiter of waiters) {
+            waiter.reject(error);
+        }
+    }
+}
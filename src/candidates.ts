@@ -0,0 +1,173 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path='../saltyrtc-task-webrtc.d.ts' />
+
+type CandidateFilter = saltyrtc.tasks.webrtc.CandidateFilter;
+type CandidateTransform = saltyrtc.tasks.webrtc.CandidateTransform;
+
+/**
+ * The attributes of a candidate relevant for filtering.
+ */
+interface CandidateAttributes {
+    protocol: string;
+    address: string;
+    type: string;
+}
+
+/**
+ * Parse the attributes of an `a=candidate` line (RFC 8839).
+ *
+ * @returns the parsed attributes or `null` in case the candidate is
+ *   malformed.
+ */
+function parseCandidate(candidate: string): CandidateAttributes | null {
+    const fields = candidate.replace(/^a=/, '').trim().split(/\s+/);
+    if (fields.length < 8 || !fields[0].startsWith('candidate:') || fields[6] !== 'typ') {
+        return null;
+    }
+    return {
+        protocol: fields[2].toLowerCase(),
+        address: fields[4].toLowerCase(),
+        type: fields[7].toLowerCase(),
+    };
+}
+
+/**
+ * Return whether an IP address is private, shared, loopback or link-local.
+ */
+function isPrivateAddress(address: string): boolean {
+    // IPv4-mapped IPv6 (::ffff:0:0/96), either in dotted or in hex notation
+    const mapped = address.match(/^(?:0{1,4}:){5}ffff:(.+)$|^::ffff:(.+)$/);
+    if (mapped !== null) {
+        address = mapped[1] !== undefined ? mapped[1] : mapped[2];
+        const hex = address.match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+        if (hex !== null) {
+            const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+            address = `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+        }
+    }
+
+    // IPv4
+    const ipv4 = address.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (ipv4 !== null) {
+        const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+        return a === 10                             // 10.0.0.0/8
+            || (a === 172 && b >= 16 && b <= 31)    // 172.16.0.0/12
+            || (a === 192 && b === 168)             // 192.168.0.0/16
+            || (a === 100 && b >= 64 && b <= 127)   // 100.64.0.0/10 (CGNAT)
+            || a === 127                            // 127.0.0.0/8
+            || (a === 169 && b === 254);            // 169.254.0.0/16
+    }
+
+    // IPv6
+    return address === '::1'                        // Loopback
+        || /^f[cd][0-9a-f]{0,2}:/.test(address)     // fc00::/7
+        || /^fe[89ab][0-9a-f]?:/.test(address);     // fe80::/10
+}
+
+/**
+ * Return whether a candidate string is empty which some browsers use to
+ * signal the end of candidates.
+ */
+function isEndOfCandidates(candidate: string): boolean {
+    return candidate.trim() === '';
+}
+
+/**
+ * Create a filter that applies a predicate on the parsed attributes of a
+ * candidate. Malformed candidates will be dropped.
+ */
+function attributeFilter(predicate: (attributes: CandidateAttributes) => boolean): CandidateFilter {
+    return (candidate: RTCIceCandidateInit) => {
+        if (isEndOfCandidates(candidate.candidate)) {
+            return true;
+        }
+        const attributes = parseCandidate(candidate.candidate);
+        return attributes !== null && predicate(attributes);
+    };
+}
+
+/**
+ * A collection of commonly used candidate filters.
+ *
+ * A candidate filter returns `true` if the candidate should be kept and
+ * `false` if it should be dropped. All filters drop malformed candidates.
+ */
+export class CandidateFilters {
+    /**
+     * Only keep relayed candidates. This prevents leaking any local or
+     * public IP address of the device to the peer.
+     */
+    public static relayOnly: CandidateFilter = attributeFilter(
+        (attributes) => attributes.type === 'relay');
+
+    /**
+     * Drop host candidates with a private, shared (CGNAT), loopback or
+     * link-local IP address, including IPv4-mapped IPv6 addresses.
+     *
+     * Note: Server reflexive and relayed candidates may still contain a
+     *       private related address. Use
+     *       `CandidateTransforms.redactRelatedAddress` to remove it.
+     */
+    public static noPrivateHost: CandidateFilter = attributeFilter(
+        (attributes) => attributes.type !== 'host' || !isPrivateAddress(attributes.address));
+
+    /**
+     * Drop candidates with an mDNS hostname (ending with `.local`).
+     */
+    public static noMdns: CandidateFilter = attributeFilter(
+        (attributes) => !attributes.address.endsWith('.local'));
+
+    /**
+     * Drop TCP candidates.
+     */
+    public static noTcp: CandidateFilter = attributeFilter(
+        (attributes) => attributes.protocol !== 'tcp');
+
+    /**
+     * Combine filters. A candidate will only be kept if all filters keep it.
+     *
+     * @param filters The filters to be combined.
+     */
+    public static all(...filters: CandidateFilter[]): CandidateFilter {
+        return (candidate: RTCIceCandidateInit) => filters.every((filter) => filter(candidate));
+    }
+}
+
+/**
+ * A collection of commonly used candidate transforms.
+ *
+ * A candidate transform returns the (modified) candidate to be sent. All
+ * transforms return the candidate unchanged in case it does not need to be
+ * modified.
+ */
+export class CandidateTransforms {
+    /**
+     * Replace the related address and port (`raddr` and `rport`) of server
+     * reflexive and relayed candidates with `0.0.0.0` and `0`. The related
+     * address is the (possibly private) address the candidate has been
+     * derived from and is not needed by the peer.
+     */
+    public static redactRelatedAddress: CandidateTransform = (candidate: RTCIceCandidateInit) => {
+        const redacted = candidate.candidate
+            .replace(/(\sraddr\s+)\S+/, (match: string, prefix: string) => `${prefix}0.0.0.0`)
+            .replace(/(\srport\s+)\S+/, (match: string, prefix: string) => `${prefix}0`);
+        if (redacted === candidate.candidate) {
+            return candidate;
+        }
+        const result: RTCIceCandidateInit = {
+            candidate: redacted,
+            sdpMid: candidate.sdpMid,
+            sdpMLineIndex: candidate.sdpMLineIndex,
+        };
+        if (candidate.usernameFragment !== undefined) {
+            result.usernameFragment = candidate.usernameFragment;
+        }
+        return result;
+    }
+}
@@ -0,0 +1,400 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path='../saltyrtc-task-webrtc.d.ts' />
+/// <reference types="@saltyrtc/chunked-dc" />
+
+import {DataChannelCryptoContext} from "./crypto";
+import {EventEmitter} from "./events";
+import {QueueLimits, SignalingTransport} from "./transport";
+
+/**
+ * Payload bytes pending reassembly of an incomplete message.
+ */
+interface PendingMessage {
+    bytes: number;
+    lastUpdate: number;
+}
+
+/**
+ * Wraps a data channel and encrypts/decrypts all messages by the use of a
+ * crypto context associated to the data channel's id.
+ *
+ * Each message is prefixed with a single byte indicating the payload type
+ * (binary or string) before being encrypted and fragmented into chunks.
+ *
+ * If the crypto context has an asynchronous API, messages are sent and
+ * dispatched in order once they have been encrypted or decrypted.
+ *
+ * Incoming messages are subject to the same limits as messages on the handed
+ * over signalling channel: The size of a message, the amount of incomplete
+ * messages and the amount of bytes pending reassembly are limited. If a limit
+ * is exceeded, an `error` event will be emitted and the data channel will be
+ * closed.
+ */
+export class SecureDataChannel extends EventEmitter
+    implements saltyrtc.tasks.webrtc.SecureDataChannel {
+    // Payload types
+    private static TYPE_BINARY = 0x00;
+    private static TYPE_STRING = 0x01;
+
+    // Garbage collection of incomplete messages (unordered channels only)
+    private static CHUNK_GC_INTERVAL_MS = 5000;
+    private static CHUNK_MAX_AGE_MS = 60000;
+
+    // Logging
+    protected readonly log: saltyrtc.Log;
+    protected readonly logTag: string;
+
+    // Underlying data channel and crypto context
+    private readonly dc: saltyrtc.tasks.webrtc.DataChannelLike;
+    private readonly crypto: saltyrtc.tasks.webrtc.DataChannelCryptoContext
+        | saltyrtc.tasks.webrtc.AsyncDataChannelCryptoContext;
+
+    // Chunking
+    private readonly chunkLength: number;
+    private readonly chunkBuffer: ArrayBuffer;
+    private readonly unchunker: chunkedDc.UnreliableUnorderedUnchunker;
+    private messageId: number = 0;
+    private lastGc: number = Date.now();
+
+    // Reassembly limits
+    // Note: Contains the incomplete messages by message id. Messages
+    //       consisting of a single chunk are not tracked.
+    private readonly queueLimits: QueueLimits;
+    private readonly maxMessageSize: number;
+    private readonly pendingMessages: Map<number, PendingMessage> = new Map();
+    private reassemblyBytes: number = 0;
+    private reassemblingMessageId: number | null = null;
+
+    /**
+     * Create a new secure data channel.
+     *
+     * Note: This will replace the `onmessage`, `onclose` and `onerror`
+     *       handlers of the data channel.
+     *
+     * @param dc The data channel to be wrapped.
+     * @param crypto A crypto context associated to the data channel's id.
+     * @param logLevel The desired log level.
+     * @param maxChunkLength The maximum amount of bytes used for a chunk.
+     * @param queueLimits Limits for incomplete incoming messages and the
+     *   bytes pending reassembly.
+     * @param maxMessageSize The maximum size of a reassembled incoming
+     *   (encrypted) message.
+     */
+    constructor(
+        dc: saltyrtc.tasks.webrtc.DataChannelLike,
+        crypto: saltyrtc.tasks.webrtc.DataChannelCryptoContext
+            | saltyrtc.tasks.webrtc.AsyncDataChannelCryptoContext,
+        logLevel: saltyrtc.LogLevel = 'none',
+        maxChunkLength: number = 262144,
+        queueLimits: QueueLimits = {
+            maxMessages: SignalingTransport.MAX_QUEUED_MESSAGES,
+            maxBytes: SignalingTransport.MAX_QUEUED_BYTES,
+        },
+        maxMessageSize: number = SignalingTransport.MAX_MESSAGE_SIZE,
+    ) {
+        super();
+        if (maxChunkLength <= chunkedDc.UNRELIABLE_UNORDERED_HEADER_LENGTH) {
+            throw new Error('Maximum chunk length must be greater than chunking overhead');
+        }
+        this.log = new saltyrtcClient.Log(logLevel);
+        this.logTag = `[SaltyRTC.WebRTC.SecureDataChannel.${dc.id}]`;
+        this.dc = dc;
+        this.crypto = crypto;
+        this.chunkLength = maxChunkLength;
+        this.chunkBuffer = new ArrayBuffer(this.chunkLength);
+        this.queueLimits = queueLimits;
+        this.maxMessageSize = maxMessageSize;
+
+        // Create unchunker and bind events
+        // Note: The unreliable/unordered unchunker is being used since the
+        //       data channel's properties are defined by the application.
+        this.unchunker = new chunkedDc.UnreliableUnorderedUnchunker();
+        this.unchunker.onMessage = this.receiveMessage.bind(this);
+
+        // Bind data channel events
+        this.dc.binaryType = 'arraybuffer';
+        this.dc.onmessage = (event: MessageEvent) => this.receiveChunk(event.data);
+        this.dc.onclose = () => this.closed();
+        this.dc.onerror = (event: Event) => this.emit({type: 'error', data: event});
+    }
+
+    /**
+     * The underlying data channel's id.
+     */
+    public get id(): number | null {
+        return this.dc.id;
+    }
+
+    /**
+     * The underlying data channel's label.
+     */
+    public get label(): string {
+        return this.dc.label;
+    }
+
+    /**
+     * Encrypt and send a message on the underlying data channel.
+     *
+     * This will encrypt the message first and then fragment the message into
+     * chunks.
+     *
+     * @param data The bytes or the string to be sent.
+     *
+     * @throws Error in case the data is neither a `Uint8Array` nor a string.
+     */
+    public send(data: Uint8Array | string): void {
+        this.log.debug(this.logTag, 'Sending message');
+
+        // Prepend payload type
+        let type: number;
+        if (typeof data === 'string') {
+            type = SecureDataChannel.TYPE_STRING;
+            data = new TextEncoder().encode(data);
+        } else if (data instanceof Uint8Array) {
+            type = SecureDataChannel.TYPE_BINARY;
+        } else {
+            throw new Error('Data must be a Uint8Array or a string');
+        }
+        const payload = new Uint8Array(data.byteLength + 1);
+        payload[0] = type;
+        payload.set(data, 1);
+
+        // Encrypt message
+        const box = this.crypto.encrypt(payload);
+        if (box instanceof Promise) {
+            box
+                .then((box) => this.sendMessage(box.toUint8Array()))
+                .catch((error) => this.die(error));
+        } else {
+            this.sendMessage(box.toUint8Array());
+        }
+    }
+
+    /**
+     * Fragment an encrypted message into chunks and send them on the
+     * underlying data channel.
+     *
+     * @param message The encrypted message.
+     */
+    private sendMessage(message: Uint8Array): void {
+        // Split message into chunks (unreliable/unordered mode)
+        const chunker = new chunkedDc.UnreliableUnorderedChunker(
+            this.messageId++, message, this.chunkLength, this.chunkBuffer);
+        for (let chunk of chunker) {
+            this.dc.send(chunk);
+        }
+    }
+
+    /**
+     * Close the underlying data channel.
+     */
+    public close(): void {
+        this.log.info(this.logTag, 'Closing (local)');
+        this.dc.close();
+    }
+
+    /**
+     * Called when the underlying data channel has been closed.
+     */
+    private closed(): void {
+        this.log.info(this.logTag, 'Closed');
+        this.unbind();
+        this.emit({type: 'close'});
+    }
+
+    /**
+     * Called when a chunk has been received on the underlying data channel.
+     *
+     * @param data The raw message data of the `message` event.
+     */
+    private receiveChunk(data: any): void {
+        this.log.debug(this.logTag, 'Received chunk');
+
+        // Ensure binary
+        if (!(data instanceof ArrayBuffer)) {
+            return this.die(new Error('Received non-binary message'));
+        }
+
+        // Enforce the reassembly limits
+        const chunk = new Uint8Array(data);
+        try {
+            this.reassemblingMessageId = this.updatePendingMessages(chunk);
+        } catch (error) {
+            this.log.error(this.logTag, 'Reassembly limit exceeded:', error);
+            return this.die(error);
+        }
+
+        // Add chunk
+        try {
+            this.unchunker.add(chunk);
+        } catch (error) {
+            this.log.error(this.logTag, 'Invalid chunk:', error);
+            return this.die(error);
+        } finally {
+            this.reassemblingMessageId = null;
+        }
+
+        // Remove incomplete messages that are unlikely to be completed
+        if (this.dc.ordered === false) {
+            const now = Date.now();
+            if (now - this.lastGc >= SecureDataChannel.CHUNK_GC_INTERVAL_MS) {
+                this.unchunker.gc(SecureDataChannel.CHUNK_MAX_AGE_MS);
+                this.removePendingMessages(now, SecureDataChannel.CHUNK_MAX_AGE_MS);
+                this.lastGc = now;
+            }
+        }
+    }
+
+    /**
+     * Account the payload of a chunk to the message it belongs to.
+     *
+     * Note: Malformed chunks are ignored here since they will be rejected by
+     *       the unchunker.
+     *
+     * @returns the id of the incomplete message the chunk belongs to or
+     *   `null` in case the message consists of a single chunk.
+     * @throws Error in case the message exceeds the maximum message size or
+     *   a reassembly limit has been exceeded.
+     */
+    private updatePendingMessages(chunk: Uint8Array): number | null {
+        const headerLength = chunkedDc.UNRELIABLE_UNORDERED_HEADER_LENGTH;
+        if (chunk.byteLength < headerLength) {
+            return null;
+        }
+        const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+        const end = (view.getUint8(0) & 0x01) === 0x01;
+        const id = view.getUint32(1);
+        const serial = view.getUint32(5);
+        const length = chunk.byteLength - headerLength;
+
+        // Single chunk message
+        if (end && serial === 0) {
+            if (length > this.maxMessageSize) {
+                throw new Error(`Message exceeds the maximum size of ${this.maxMessageSize} bytes`);
+            }
+            return null;
+        }
+
+        // Update pending bytes of the message
+        let pending = this.pendingMessages.get(id);
+        if (pending === undefined) {
+            if (this.pendingMessages.size >= this.queueLimits.maxMessages) {
+                throw new Error(
+                    `Incomplete messages exceed ${this.queueLimits.maxMessages} messages`);
+            }
+            pending = {bytes: 0, lastUpdate: 0};
+            this.pendingMessages.set(id, pending);
+        }
+        pending.bytes += length;
+        pending.lastUpdate = Date.now();
+        this.reassemblyBytes += length;
+        if (pending.bytes > this.maxMessageSize) {
+            throw new Error(`Message exceeds the maximum size of ${this.maxMessageSize} bytes`);
+        }
+        if (this.reassemblyBytes > this.queueLimits.maxBytes) {
+            throw new Error(
+                `Chunks pending reassembly exceed ${this.queueLimits.maxBytes} bytes`);
+        }
+        return id;
+    }
+
+    /**
+     * Stop tracking incomplete messages that have not been updated within
+     * `maxAge` milliseconds (mirrors the unchunker's garbage collection).
+     */
+    private removePendingMessages(now: number, maxAge: number): void {
+        this.pendingMessages.forEach((pending, id) => {
+            if (now - pending.lastUpdate > maxAge) {
+                this.reassemblyBytes -= pending.bytes;
+                this.pendingMessages.delete(id);
+            }
+        });
+    }
+
+    /**
+     * Called when a message has been reassembled from chunks received on the
+     * underlying data channel.
+     *
+     * @param message The reassembled message.
+     */
+    private receiveMessage(message: Uint8Array): void {
+        this.log.debug(this.logTag, 'Received message');
+
+        // Stop tracking the message
+        const pending = this.pendingMessages.get(this.reassemblingMessageId);
+        if (pending !== undefined) {
+            this.reassemblyBytes -= pending.bytes;
+            this.pendingMessages.delete(this.reassemblingMessageId);
+        }
+
+        // Decrypt message
+        let payload: Uint8Array | Promise<Uint8Array>;
+        try {
+            const box = saltyrtcClient.Box.fromUint8Array(
+                message, DataChannelCryptoContext.NONCE_LENGTH);
+            payload = this.crypto.decrypt(box);
+        } catch (error) {
+            this.log.error(this.logTag, 'Unable to decrypt message:', error);
+            return this.die(error);
+        }
+        if (payload instanceof Promise) {
+            payload.then((payload) => this.dispatchPayload(payload), (error) => {
+                this.log.error(this.logTag, 'Unable to decrypt message:', error);
+                this.die(error);
+            });
+        } else {
+            this.dispatchPayload(payload);
+        }
+    }
+
+    /**
+     * Dispatch a decrypted message depending on its payload type.
+     *
+     * @param payload The decrypted message.
+     */
+    private dispatchPayload(payload: Uint8Array): void {
+        // Strip payload type and dispatch
+        const data = payload.subarray(1);
+        switch (payload[0]) {
+            case SecureDataChannel.TYPE_BINARY:
+                this.emit({type: 'message', data: data});
+                break;
+            case SecureDataChannel.TYPE_STRING:
+                this.emit({type: 'message', data: new TextDecoder().decode(data)});
+                break;
+            default:
+                this.die(new Error(`Unknown payload type: ${payload[0]}`));
+        }
+    }
+
+    /**
+     * Closes the data channel abruptly due to an error.
+     */
+    private die(cause: any): void {
+        this.log.warn(this.logTag, 'Closing data channel due to an error');
+        this.emit({type: 'error', data: cause});
+
+        // Close data channel
+        try {
+            this.dc.close();
+        } catch (error) {
+            this.log.error(this.logTag, 'Unable to close data channel:', error);
+        }
+    }
+
+    /**
+     * Unbind from all events.
+     */
+    private unbind(): void {
+        this.dc.onmessage = null;
+        this.dc.onclose = null;
+        this.dc.onerror = null;
+        this.unchunker.onMessage = undefined;
+    }
+}
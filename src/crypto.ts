@@ -7,43 +7,403 @@
 
 /// <reference path='../saltyrtc-task-webrtc.d.ts' />
 
+import * as nacl from "tweetnacl";
+
 import {DataChannelNonce} from "./nonce";
 
+/**
+ * Key rotation policy of a crypto context. A limit of `0` disables the
+ * respective trigger.
+ */
+export interface KeyRotationPolicy {
+    // Amount of messages encrypted with a key before it will be rotated
+    maxMessages: number;
+    // Amount of milliseconds a key will be used before it will be rotated
+    maxAgeMs: number;
+}
+
+/**
+ * The nonce and the key (`null` for the session key) to be used for
+ * encrypting an outgoing message.
+ */
+export interface PreparedEncryption {
+    nonce: Uint8Array;
+    key: Uint8Array | null;
+}
+
+/**
+ * The combined sequence number of an incoming message and the keys (`null`
+ * for the session key) it may have been encrypted with.
+ */
+export interface PreparedDecryption {
+    csn: number;
+    keys: Array<Uint8Array | null>;
+}
+
+/**
+ * A key of a specific epoch. A `null` key refers to the session key of the
+ * signalling which is being used in epoch `0` unless key rotation has been
+ * enabled.
+ */
+interface EpochKey {
+    epoch: number;
+    key: Uint8Array | null;
+}
+
+/**
+ * The salt the initial key of a crypto context is derived from once key
+ * rotation has been enabled.
+ *
+ * Note: Neither a data channel nonce (the id 65535 is reserved) nor a
+ *       signalling nonce (source and destination cannot both be 255)
+ *       consists of 0xff bytes only, so the salt will never collide with the
+ *       nonce of a message.
+ */
+const INITIAL_KEY_SALT = new Uint8Array(DataChannelNonce.TOTAL_LENGTH).fill(0xff);
+
+/**
+ * Low-level API of tweetnacl which is not covered by its type declarations.
+ */
+interface NaclLowLevel {
+    lowlevel: {
+        crypto_secretbox(
+            c: Uint8Array, m: Uint8Array, d: number, n: Uint8Array, k: Uint8Array): number;
+    };
+}
+
+/**
+ * Return an `ArrayBuffer` containing exactly the bytes of an array, so it
+ * will be encoded as binary data by the signalling.
+ */
+function arrayToBuffer(array: Uint8Array): ArrayBuffer {
+    if (array.byteOffset === 0 && array.byteLength === array.buffer.byteLength) {
+        return array.buffer;
+    }
+    return array.buffer.slice(array.byteOffset, array.byteOffset + array.byteLength);
+}
+
+/**
+ * The default crypto backend. Uses the session key of the signalling and
+ * tweetnacl's secret box for keys derived by key rotation.
+ */
+export class SignalingCryptoBackend implements saltyrtc.tasks.webrtc.DataChannelCryptoBackend {
+    // Amount of zero bytes preceding the data and the box of tweetnacl's
+    // low-level secret box API
+    private static ZERO_LENGTH = 32;
+    private static BOX_ZERO_LENGTH = 16;
+
+    private readonly signaling: saltyrtc.Signaling;
+
+    /**
+     * Create a new crypto backend.
+     *
+     * @param signaling The signaling instance.
+     */
+    constructor(signaling: saltyrtc.Signaling) {
+        this.signaling = signaling;
+    }
+
+    public encrypt(data: Uint8Array, nonce: Uint8Array, key: Uint8Array | null): Uint8Array {
+        if (key === null) {
+            return this.signaling.encryptForPeer(data, nonce).data;
+        }
+        return nacl.secretbox(data, nonce, key);
+    }
+
+    /**
+     * Note: Encrypting with the session key requires a copy since the
+     *       signalling always allocates the encrypted data.
+     */
+    public encryptInto(
+        data: Uint8Array, nonce: Uint8Array, key: Uint8Array | null, target: Uint8Array,
+    ): number {
+        if (key === null) {
+            const encrypted = this.signaling.encryptForPeer(data, nonce).data;
+            target.set(encrypted, nonce.byteLength);
+            return encrypted.byteLength;
+        }
+
+        // The secret box requires the data to be preceded by 32 zero bytes and
+        // yields 16 zero bytes followed by the authenticator and the encrypted
+        // data. Encrypting in place with the zero bytes overlapping the space of
+        // the nonce (written afterwards) places the result right after it.
+        const length = SignalingCryptoBackend.ZERO_LENGTH + data.byteLength;
+        const offset = nonce.byteLength + SignalingCryptoBackend.BOX_ZERO_LENGTH
+            - SignalingCryptoBackend.ZERO_LENGTH;
+        const box = target.subarray(offset, offset + length);
+        box.fill(0, 0, SignalingCryptoBackend.ZERO_LENGTH);
+        box.set(data, SignalingCryptoBackend.ZERO_LENGTH);
+        (nacl as typeof nacl & NaclLowLevel).lowlevel.crypto_secretbox(
+            box, box, length, nonce, key);
+        return length - SignalingCryptoBackend.BOX_ZERO_LENGTH;
+    }
+
+    /**
+     * Note: The signalling resets the connection in case decryption with the
+     *       session key fails.
+     */
+    public decrypt(data: Uint8Array, nonce: Uint8Array, key: Uint8Array | null): Uint8Array | null {
+        if (key === null) {
+            return this.signaling.decryptFromPeer(
+                new saltyrtcClient.Box(nonce, data, DataChannelNonce.TOTAL_LENGTH));
+        }
+        return nacl.secretbox.open(data, nonce, key);
+    }
+}
+
+/**
+ * Thrown by a crypto context once all combined sequence numbers have been
+ * used up. The data channel cannot be used to send further messages.
+ */
+export class CsnExhaustedError extends Error
+    implements saltyrtc.tasks.webrtc.CsnExhaustedError {
+    public readonly channelId: number;
+
+    /**
+     * Create a combined sequence number exhaustion error.
+     *
+     * @param channelId The data channel's id.
+     */
+    constructor(channelId: number) {
+        const message = `Combined sequence numbers of data channel ${channelId} are exhausted`;
+        super(message);
+        this.message = message;
+        this.name = 'CsnExhaustedError';
+        this.channelId = channelId;
+    }
+}
+
+/**
+ * Tracks recently seen combined sequence numbers in a sliding window.
+ */
+class ReplayWindow {
+    private readonly size: number;
+    private readonly bitmap: Uint32Array;
+    private highest: number | null = null;
+
+    constructor(size: number) {
+        this.size = size;
+        this.bitmap = new Uint32Array(Math.ceil(size / 32));
+    }
+
+    /**
+     * Ensure that a combined sequence number has not been seen before and
+     * does not fall behind the window.
+     *
+     * @throws ValidationError in case the CSN has been seen before or is too
+     *   old to be tracked.
+     */
+    public check(csn: number): void {
+        if (this.highest === null || csn > this.highest) {
+            return;
+        }
+        if (this.highest - csn >= this.size) {
+            throw new saltyrtcClient.exceptions.ValidationError('CSN outside of replay window');
+        }
+        if (this.isSet(csn)) {
+            throw new saltyrtcClient.exceptions.ValidationError('CSN reuse detected');
+        }
+    }
+
+    /**
+     * Mark a combined sequence number as seen, sliding the window if
+     * necessary.
+     */
+    public update(csn: number): void {
+        if (this.highest === null) {
+            this.highest = csn;
+        } else if (csn > this.highest) {
+            // Clear the slots the window is being moved over
+            const distance = csn - this.highest;
+            if (distance >= this.size) {
+                this.bitmap.fill(0);
+            } else {
+                for (let i = 1; i <= distance; ++i) {
+                    this.clear(this.highest + i);
+                }
+            }
+            this.highest = csn;
+        }
+        this.set(csn);
+    }
+
+    private isSet(csn: number): boolean {
+        const index = csn % this.size;
+        return (this.bitmap[index >>> 5] & (1 << (index & 31))) !== 0;
+    }
+
+    private set(csn: number): void {
+        const index = csn % this.size;
+        this.bitmap[index >>> 5] |= 1 << (index & 31);
+    }
+
+    private clear(csn: number): void {
+        const index = csn % this.size;
+        this.bitmap[index >>> 5] &= ~(1 << (index & 31));
+    }
+}
+
 /**
  * Can encrypt and decrypt data for a data channel with a specific id.
  */
 export class DataChannelCryptoContext implements saltyrtc.tasks.webrtc.DataChannelCryptoContext {
     private readonly channelId: number;
-    private readonly signaling: saltyrtc.Signaling;
+    public readonly backend: saltyrtc.tasks.webrtc.DataChannelCryptoBackend;
     private readonly cookiePair: saltyrtc.CookiePair;
     private readonly csnPair: saltyrtc.CombinedSequencePair;
+    private readonly replayProtection: saltyrtc.tasks.webrtc.ReplayProtection;
+    private readonly replayWindow: ReplayWindow | null = null;
     private lastIncomingCsn: number = null;
 
+    // CSN exhaustion
+    // Note: The nonce only contains 16 bits of the overflow number, so the
+    //       outgoing CSN must not exceed `MAX_CSN`.
+    private lastOutgoingCsn: number = 0;
+    private csnWarningThreshold: number | null = null;
+    private csnWarning: ((remaining: number) => void) | null = null;
+
+    // Key rotation
+    // Note: The incoming keys contain the current key followed by the
+    //       previous key (if any), so messages encrypted with the previous
+    //       key can still be decrypted after the peer switched keys.
+    private keyRotation: KeyRotationPolicy | null = null;
+    private sendKeyRotationMessage: ((message: saltyrtc.messages.TaskMessage) => void) | null
+        = null;
+    private outgoingKey: EpochKey = {epoch: 0, key: null};
+    private pendingOutgoingKey: EpochKey | null = null;
+    private outgoingKeyMessages: number = 0;
+    private outgoingKeyCreated: number = Date.now();
+    private incomingKeys: EpochKey[] = [{epoch: 0, key: null}];
+
     public static OVERHEAD_LENGTH: number = 40;
     public static NONCE_LENGTH: number = DataChannelNonce.TOTAL_LENGTH;
+    public static DEFAULT_REPLAY_WINDOW_SIZE: number = 1024;
+    public static MAX_CSN: number = (0xFFFF * (2 ** 32)) + 0xFFFFFFFF;
+    public static DEFAULT_CSN_WARNING_THRESHOLD: number = 2 ** 32;
 
-    constructor(channelId: number, signaling: saltyrtc.Signaling) {
+    /**
+     * Create a new crypto context.
+     *
+     * @param channelId The data channel's id.
+     * @param signaling The signaling instance. Used by the default crypto
+     *   backend.
+     * @param options Further options, see `DataChannelCryptoContextOptions`.
+     *
+     * @throws Error in case the replay protection options are invalid.
+     */
+    constructor(
+        channelId: number, signaling: saltyrtc.Signaling,
+        options: saltyrtc.tasks.webrtc.DataChannelCryptoContextOptions = {},
+    ) {
         this.channelId = channelId;
-        this.signaling = signaling;
+        this.backend = options.backend !== undefined
+            ? options.backend : new SignalingCryptoBackend(signaling);
         this.cookiePair = new saltyrtcClient.CookiePair();
         this.csnPair = new saltyrtcClient.CombinedSequencePair();
+
+        // Set up replay protection
+        this.replayProtection = options.replayProtection !== undefined
+            ? options.replayProtection : 'consecutive';
+        switch (this.replayProtection) {
+            case 'consecutive':
+            case 'strict':
+                break;
+            case 'window':
+                const size = options.replayWindowSize !== undefined
+                    ? options.replayWindowSize : DataChannelCryptoContext.DEFAULT_REPLAY_WINDOW_SIZE;
+                if (!Number.isInteger(size) || size < 1) {
+                    throw new Error('Replay window size must be a positive integer');
+                }
+                this.replayWindow = new ReplayWindow(size);
+                break;
+            default:
+                throw new Error(`Unknown replay protection mode: ${this.replayProtection}`);
+        }
     }
 
     /**
      * Encrypt data to be sent on the channel.
      *
      * @param data The bytes to be encrypted.
+     *
+     * @throws CsnExhaustedError in case all combined sequence numbers have
+     *   been used up.
      */
     public encrypt(data: Uint8Array): saltyrtc.Box {
+        const prepared = this.prepareEncryption();
+        const encrypted = this.backend.encrypt(data, prepared.nonce, prepared.key);
+        return new saltyrtcClient.Box(
+            prepared.nonce, encrypted, DataChannelCryptoContext.NONCE_LENGTH);
+    }
+
+    /**
+     * Encrypt data to be sent on the channel and write the nonce followed by
+     * the encrypted data into `target`. Unlike `encrypt`, this does not
+     * allocate a `Box` and a buffer for the serialised box. If the backend
+     * supports it, the encrypted data is written into `target` directly.
+     *
+     * Note: The default backend can only do so for derived keys. Data
+     *       encrypted with the session key of the signalling (i.e. unless
+     *       key rotation has been enabled) is allocated by the signalling
+     *       and copied into `target`.
+     *
+     * @param data The bytes to be encrypted.
+     * @param target The buffer to write into. Must have room for at least
+     *   `data.byteLength + OVERHEAD_LENGTH` bytes.
+     * @returns The amount of bytes written.
+     *
+     * @throws Error in case the target buffer is too small.
+     * @throws CsnExhaustedError in case all combined sequence numbers have
+     *   been used up.
+     */
+    public encryptInto(data: Uint8Array, target: Uint8Array): number {
+        // Note: Checked before the CSN is being consumed
+        const length = data.byteLength + DataChannelCryptoContext.OVERHEAD_LENGTH;
+        if (target.byteLength < length) {
+            throw new Error(`Target buffer is too small, ${length} bytes are required`);
+        }
+        const prepared = this.prepareEncryption();
+        let written: number;
+        if (this.backend.encryptInto !== undefined) {
+            written = this.backend.encryptInto(data, prepared.nonce, prepared.key, target);
+        } else {
+            const encrypted = this.backend.encrypt(data, prepared.nonce, prepared.key);
+            target.set(encrypted, DataChannelCryptoContext.NONCE_LENGTH);
+            written = encrypted.byteLength;
+        }
+        target.set(prepared.nonce);
+        return DataChannelCryptoContext.NONCE_LENGTH + written;
+    }
+
+    /**
+     * Create the nonce of the next outgoing message and determine the key
+     * to be used.
+     *
+     * This method should only be called by a crypto context wrapping this
+     * crypto context, not by the application!
+     *
+     * @throws CsnExhaustedError in case all combined sequence numbers have
+     *   been used up.
+     */
+    public prepareEncryption(): PreparedEncryption {
+        // Refuse to encrypt instead of wrapping the overflow number
+        if (this.lastOutgoingCsn >= DataChannelCryptoContext.MAX_CSN) {
+            throw new CsnExhaustedError(this.channelId);
+        }
+
+        // Rotate the outgoing key if necessary
+        this.checkKeyRotation();
+
         // Get next outgoing CSN
         const csn: saltyrtc.NextCombinedSequence = this.csnPair.ours.next();
+        this.updateOutgoingCsn((csn.overflow * (2 ** 32)) + csn.sequenceNumber);
 
         // Create nonce
         const nonce = new DataChannelNonce(
             this.cookiePair.ours, this.channelId, csn.overflow, csn.sequenceNumber);
 
-        // Encrypt data
-        return this.signaling.encryptForPeer(data, nonce.toUint8Array());
+        this.outgoingKeyMessages++;
+        return {nonce: nonce.toUint8Array(), key: this.outgoingKey.key};
     }
 
     /**
@@ -54,6 +414,42 @@ export class DataChannelCryptoContext implements saltyrtc.tasks.webrtc.DataChann
      * @throws ValidationError in case the nonce is invalid.
      */
     public decrypt(box: saltyrtc.Box): Uint8Array {
+        const prepared = this.prepareDecryption(box);
+        const data = this.decryptData(box, prepared.keys);
+        this.completeDecryption(prepared.csn);
+        return data;
+    }
+
+    /**
+     * Decrypt a message received on the channel which consists of the nonce
+     * followed by the encrypted data. Unlike `Box.fromUint8Array`, this does
+     * not copy the message.
+     *
+     * @param view The message.
+     *
+     * @throws ValidationError in case the message is too short or the nonce
+     *   is invalid.
+     */
+    public decryptFrom(view: Uint8Array): Uint8Array {
+        const nonceLength = DataChannelCryptoContext.NONCE_LENGTH;
+        if (view.byteLength <= nonceLength) {
+            throw new saltyrtcClient.exceptions.ValidationError('Message is shorter than nonce');
+        }
+        const box = new saltyrtcClient.Box(
+            view.subarray(0, nonceLength), view.subarray(nonceLength), nonceLength);
+        return this.decrypt(box);
+    }
+
+    /**
+     * Validate the nonce of an incoming message and determine the keys the
+     * message may have been encrypted with.
+     *
+     * This method should only be called by a crypto context wrapping this
+     * crypto context, not by the application!
+     *
+     * @throws ValidationError in case the nonce is invalid.
+     */
+    public prepareDecryption(box: saltyrtc.Box): PreparedDecryption {
         // Validate nonce
         let nonce: DataChannelNonce;
         try {
@@ -70,8 +466,10 @@ export class DataChannelCryptoContext implements saltyrtc.tasks.webrtc.DataChann
         }
 
         // If this is the first decrypt attempt, store peer cookie
+        // Note: The cookie is copied since the nonce may be a view on a
+        //       buffer owned by the caller (see `decryptFrom`).
         if (this.cookiePair.theirs === null || this.cookiePair.theirs === undefined) {
-            this.cookiePair.theirs = nonce.cookie;
+            this.cookiePair.theirs = new saltyrtcClient.Cookie(nonce.cookie.bytes.slice());
         }
 
         // Otherwise make sure the peer cookie didn't change
@@ -79,15 +477,9 @@ export class DataChannelCryptoContext implements saltyrtc.tasks.webrtc.DataChann
             throw new saltyrtcClient.exceptions.ValidationError('Remote cookie changed');
         }
 
-        // Make sure that two consecutive incoming messages do not have the
-        // exact same CSN.
-        //
-        // Note: This very loose check ensures that unreliable/unordered data
-        //       channels do not break.
-        if (this.lastIncomingCsn !== null &&
-            nonce.combinedSequenceNumber === this.lastIncomingCsn) {
-            throw new saltyrtcClient.exceptions.ValidationError('CSN reuse detected');
-        }
+        // Make sure the CSN is acceptable for the replay protection mode
+        const csn = nonce.combinedSequenceNumber;
+        this.validateIncomingCsn(csn);
 
         // Validate data channel id
         if (nonce.channelId !== this.channelId) {
@@ -95,10 +487,271 @@ export class DataChannelCryptoContext implements saltyrtc.tasks.webrtc.DataChann
             throw new saltyrtcClient.exceptions.ValidationError(error);
         }
 
-        // Update incoming CSN
-        this.lastIncomingCsn = nonce.combinedSequenceNumber;
+        return {csn: csn, keys: this.incomingKeys.map((incomingKey) => incomingKey.key)};
+    }
 
-        // Decrypt data
-        return this.signaling.decryptFromPeer(box);
+    /**
+     * Update the replay protection state once an incoming message has been
+     * decrypted.
+     *
+     * Note: This happens after decryption, so a forged nonce cannot alter
+     *       the replay protection state. The CSN is validated again since
+     *       further messages may have been decrypted in the meantime.
+     *
+     * This method should only be called by a crypto context wrapping this
+     * crypto context, not by the application!
+     *
+     * @throws ValidationError in case the CSN is considered a replay.
+     */
+    public completeDecryption(csn: number): void {
+        this.validateIncomingCsn(csn);
+        this.lastIncomingCsn = csn;
+        if (this.replayWindow !== null) {
+            this.replayWindow.update(csn);
+        }
+    }
+
+    /**
+     * Decrypt data with the current or the previous incoming key.
+     *
+     * Note: Decryption with the session key is attempted last since the
+     *       signalling resets the connection if it fails.
+     *
+     * @throws ValidationError in case the data could not be decrypted.
+     */
+    private decryptData(box: saltyrtc.Box, keys: Array<Uint8Array | null>): Uint8Array {
+        let useSessionKey = false;
+        for (const key of keys) {
+            if (key === null) {
+                useSessionKey = true;
+                continue;
+            }
+            const data = this.backend.decrypt(box.data, box.nonce, key);
+            if (data !== null) {
+                return data;
+            }
+        }
+        const data = useSessionKey ? this.backend.decrypt(box.data, box.nonce, null) : null;
+        if (data === null) {
+            throw new saltyrtcClient.exceptions.ValidationError('Unable to decrypt data');
+        }
+        return data;
+    }
+
+    /**
+     * Enable key rotation for this crypto context. Key rotation messages
+     * will be sent to the peer by the use of `send`.
+     *
+     * Instead of the session key, a key derived from the session key and a
+     * fixed salt will be used in epoch `0`, so every message is encrypted
+     * with a derived key. Therefore, this MUST be called before any message
+     * has been encrypted or decrypted and the peer's crypto context MUST
+     * enable key rotation as well.
+     *
+     * This method should only be called by the task, not by the application!
+     *
+     * @param policy Determines when the outgoing key will be rotated.
+     * @param send Sends a key rotation message to the peer.
+     */
+    public enableKeyRotation(
+        policy: KeyRotationPolicy, send: (message: saltyrtc.messages.TaskMessage) => void,
+    ): void {
+        this.keyRotation = policy;
+        this.sendKeyRotationMessage = send;
+
+        // Derive the initial key
+        const key = this.deriveKey(INITIAL_KEY_SALT);
+        this.outgoingKey = {epoch: 0, key: key};
+        this.incomingKeys = [{epoch: 0, key: key}];
+    }
+
+    /**
+     * Enable the combined sequence number exhaustion warning for this crypto
+     * context. `warn` will be called once the amount of remaining outgoing
+     * combined sequence numbers dropped to or below `threshold`.
+     *
+     * This method should only be called by the task, not by the application!
+     *
+     * @param threshold The amount of remaining combined sequence numbers.
+     * @param warn Called (once) with the amount of remaining combined
+     *   sequence numbers.
+     */
+    public enableCsnWarning(threshold: number, warn: (remaining: number) => void): void {
+        this.csnWarningThreshold = threshold;
+        this.csnWarning = warn;
+    }
+
+    /**
+     * Rotate the outgoing key.
+     *
+     * A new key will be derived from the session key and a random salt. The
+     * salt will be sent to the peer in a `rekey` message and the new key
+     * will be used once the peer acknowledged it. Until then, messages will
+     * still be encrypted with the current key.
+     *
+     * Does nothing if a key rotation is already pending.
+     *
+     * @throws Error in case key rotation has not been negotiated.
+     */
+    public rotateKey(): void {
+        if (this.sendKeyRotationMessage === null) {
+            throw new Error('Key rotation has not been negotiated');
+        }
+        if (this.pendingOutgoingKey !== null) {
+            return;
+        }
+        const epoch = this.outgoingKey.epoch + 1;
+        const salt = nacl.randomBytes(DataChannelCryptoContext.NONCE_LENGTH);
+        this.pendingOutgoingKey = {epoch: epoch, key: this.deriveKey(salt)};
+        this.sendKeyRotationMessage(
+            {type: 'rekey', id: this.channelId, epoch: epoch, salt: arrayToBuffer(salt)});
+    }
+
+    /**
+     * Called when the peer rotated its outgoing key. Derives and stores the
+     * new incoming key and acknowledges it.
+     *
+     * This method should only be called by the task, not by the application!
+     *
+     * @param epoch The epoch of the new key.
+     * @param salt The salt the new key is derived from.
+     *
+     * @throws ValidationError in case the epoch does not succeed the current
+     *   incoming epoch.
+     */
+    public onRekey(epoch: number, salt: Uint8Array): void {
+        const current = this.incomingKeys[0];
+        if (epoch !== current.epoch + 1) {
+            throw new saltyrtcClient.exceptions.ValidationError(
+                `Unexpected key epoch ${epoch}, expected ${current.epoch + 1}`);
+        }
+        this.incomingKeys = [{epoch: epoch, key: this.deriveKey(salt)}, current];
+        this.sendKeyRotationMessage({type: 'rekey-ack', id: this.channelId, epoch: epoch});
+    }
+
+    /**
+     * Called when the peer acknowledged the pending outgoing key. Switches to
+     * the new outgoing key.
+     *
+     * This method should only be called by the task, not by the application!
+     *
+     * @param epoch The epoch of the acknowledged key.
+     *
+     * @throws ValidationError in case no key of that epoch is pending.
+     */
+    public onRekeyAck(epoch: number): void {
+        if (this.pendingOutgoingKey === null || epoch !== this.pendingOutgoingKey.epoch) {
+            throw new saltyrtcClient.exceptions.ValidationError(
+                `Unexpected key rotation acknowledgement for epoch ${epoch}`);
+        }
+        this.outgoingKey = this.pendingOutgoingKey;
+        this.pendingOutgoingKey = null;
+        this.outgoingKeyMessages = 0;
+        this.outgoingKeyCreated = Date.now();
+    }
+
+    /**
+     * Called when the peer rejected the pending outgoing key because it has
+     * no crypto context for this data channel id (yet). The current outgoing
+     * key remains in use and the key will be rotated again once a limit of
+     * the key rotation policy has been reached anew.
+     *
+     * This method should only be called by the task, not by the application!
+     *
+     * @param epoch The epoch of the rejected key.
+     *
+     * @throws ValidationError in case no key of that epoch is pending.
+     */
+    public onRekeyReject(epoch: number): void {
+        if (this.pendingOutgoingKey === null || epoch !== this.pendingOutgoingKey.epoch) {
+            throw new saltyrtcClient.exceptions.ValidationError(
+                `Unexpected key rotation rejection for epoch ${epoch}`);
+        }
+        this.pendingOutgoingKey = null;
+        this.outgoingKeyMessages = 0;
+        this.outgoingKeyCreated = Date.now();
+    }
+
+    /**
+     * Store the outgoing combined sequence number and warn in case the
+     * remaining combined sequence numbers dropped to or below the threshold.
+     */
+    private updateOutgoingCsn(csn: number): void {
+        this.lastOutgoingCsn = csn;
+        if (this.csnWarning === null) {
+            return;
+        }
+        const remaining = DataChannelCryptoContext.MAX_CSN - csn;
+        if (remaining <= this.csnWarningThreshold) {
+            const warn = this.csnWarning;
+            this.csnWarning = null;
+            warn(remaining);
+        }
+    }
+
+    /**
+     * Rotate the outgoing key in case one of the limits of the key rotation
+     * policy has been reached.
+     */
+    private checkKeyRotation(): void {
+        const policy = this.keyRotation;
+        if (policy === null || this.pendingOutgoingKey !== null) {
+            return;
+        }
+        if ((policy.maxMessages > 0 && this.outgoingKeyMessages >= policy.maxMessages)
+            || (policy.maxAgeMs > 0 && Date.now() - this.outgoingKeyCreated >= policy.maxAgeMs)) {
+            this.rotateKey();
+        }
+    }
+
+    /**
+     * Derive a key for this data channel from the session key and a salt.
+     *
+     * Note: The session key is shared by both peers, so encrypting zeroes
+     *       with the salt as nonce yields the same key stream on both sides.
+     *       The salt is either random or `INITIAL_KEY_SALT`, so it will not
+     *       collide with the nonce of a message.
+     */
+    private deriveKey(salt: Uint8Array): Uint8Array {
+        const stream = this.backend.encrypt(
+            new Uint8Array(nacl.secretbox.keyLength), salt, null);
+        const input = new Uint8Array(stream.byteLength + 2);
+        input.set(stream);
+        new DataView(input.buffer).setUint16(stream.byteLength, this.channelId);
+        return nacl.hash(input).slice(0, nacl.secretbox.keyLength);
+    }
+
+    /**
+     * Validate an incoming combined sequence number depending on the replay
+     * protection mode.
+     *
+     * @throws ValidationError in case the CSN is considered a replay.
+     */
+    private validateIncomingCsn(csn: number): void {
+        switch (this.replayProtection) {
+            case 'consecutive':
+                // Make sure that two consecutive incoming messages do not have
+                // the exact same CSN.
+                //
+                // Note: This very loose check ensures that unreliable/unordered
+                //       data channels do not break.
+                if (this.lastIncomingCsn !== null && csn === this.lastIncomingCsn) {
+                    throw new saltyrtcClient.exceptions.ValidationError('CSN reuse detected');
+                }
+                break;
+            case 'strict':
+                // Make sure the CSN is strictly increasing
+                if (this.lastIncomingCsn !== null && csn === this.lastIncomingCsn) {
+                    throw new saltyrtcClient.exceptions.ValidationError('CSN reuse detected');
+                }
+                if (this.lastIncomingCsn !== null && csn < this.lastIncomingCsn) {
+                    throw new saltyrtcClient.exceptions.ValidationError(
+                        'CSN is lower than the previous CSN');
+                }
+                break;
+            case 'window':
+                this.replayWindow.check(csn);
+                break;
+        }
     }
 }
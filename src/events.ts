@@ -0,0 +1,94 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path='../saltyrtc-task-webrtc.d.ts' />
+
+/**
+ * Base class of all classes that emit events to handlers registered by the
+ * application.
+ */
+export abstract class EventEmitter {
+    // Logging
+    protected abstract readonly log: saltyrtc.Log;
+    protected abstract logTag: string;
+
+    // Events
+    private readonly eventRegistry: saltyrtc.EventRegistry = new saltyrtcClient.EventRegistry();
+
+    /**
+     * Attach an event handler to the specified event(s).
+     *
+     * Note: The same event handler object be registered twice. It will only
+     * run once.
+     */
+    public on(event: string | string[], handler: saltyrtc.SaltyRTCEventHandler): void {
+        this.eventRegistry.register(event, handler);
+    }
+
+    /**
+     * Attach a one-time event handler to the specified event(s).
+     *
+     * Note: If the same handler was already registered previously as a regular
+     * event handler, it will be completely removed after running once.
+     */
+    public once(event: string | string[], handler: saltyrtc.SaltyRTCEventHandler): void {
+        const onceHandler: saltyrtc.SaltyRTCEventHandler = (ev: saltyrtc.SaltyRTCEvent) => {
+            try {
+                handler(ev);
+            } catch (e) {
+                // Handle exceptions
+                this.off(ev.type, onceHandler);
+                throw e;
+            }
+            this.off(ev.type, onceHandler);
+        };
+        this.eventRegistry.register(event, onceHandler);
+    }
+
+    /**
+     * Remove an event handler from the specified event(s).
+     *
+     * If no handler is specified, remove all handlers for the specified
+     * event(s).
+     *
+     * If no event name is specified, all event handlers will be cleared.
+     */
+    public off(event?: string | string[], handler?: saltyrtc.SaltyRTCEventHandler): void {
+        if (event === undefined) {
+            this.eventRegistry.unregisterAll();
+        } else {
+            this.eventRegistry.unregister(event, handler);
+        }
+    }
+
+    /**
+     * Emit an event.
+     */
+    protected emit(event: saltyrtc.SaltyRTCEvent) {
+        this.log.debug(this.logTag, 'New event:', event.type);
+        const handlers = this.eventRegistry.get(event.type);
+        for (let handler of handlers) {
+            try {
+                this.callHandler(handler, event);
+            } catch (e) {
+                this.log.error(this.logTag, 'Unhandled exception in', event.type, 'handler:', e);
+            }
+        }
+    }
+
+    /**
+     * Call a handler with the specified event.
+     *
+     * If the handler returns `false`, unregister it.
+     */
+    private callHandler(handler: saltyrtc.SaltyRTCEventHandler, event: saltyrtc.SaltyRTCEvent) {
+        const response = handler(event);
+        if (response === false) {
+            this.eventRegistry.unregister(event.type, handler);
+        }
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path='../saltyrtc-task-webrtc.d.ts' />
+
+/**
+ * Maximum message size used in case the peer connection does not expose
+ * the SCTP transport's maximum message size.
+ */
+const DEFAULT_MAX_MESSAGE_SIZE = 16384;
+
+/**
+ * Create the dedicated data channel for handover from the information of a
+ * `SignalingTransportLink`, wire all events of the data channel to the link
+ * and return a `SignalingTransportHandler` bound to the data channel.
+ *
+ * Example:
+ *
+ *     const link = task.getTransportLink();
+ *     createDataChannelHandler(pc, link)
+ *         .then((handler) => task.handover(handler));
+ *
+ * Note: The handover MUST be initiated in the continuation of the returned
+ *       promise (without yielding back to the event loop) to prevent
+ *       messages from being lost.
+ *
+ * @param pc The peer connection.
+ * @param link The signalling transport link retrieved from the task.
+ * @returns a promise that resolves with the handler once the data channel
+ *   is open and rejects if the data channel closes or errors before.
+ */
+export function createDataChannelHandler(
+    pc: saltyrtc.tasks.webrtc.DataChannelPeerConnectionLike,
+    link: saltyrtc.tasks.webrtc.SignalingTransportLink,
+): Promise<saltyrtc.tasks.webrtc.SignalingTransportHandler> {
+    // Create data channel
+    const dc = pc.createDataChannel(link.label, {
+        id: link.id,
+        negotiated: true,
+        ordered: true,
+        protocol: link.protocol,
+    });
+    dc.binaryType = 'arraybuffer';
+    dc.bufferedAmountLowThreshold = link.bufferedAmountLowThreshold;
+
+    // Create handler
+    const handler: saltyrtc.tasks.webrtc.SignalingTransportHandler = {
+        get maxMessageSize(): number {
+            if (pc.sctp === undefined || pc.sctp === null || !pc.sctp.maxMessageSize) {
+                return DEFAULT_MAX_MESSAGE_SIZE;
+            }
+            return pc.sctp.maxMessageSize;
+        },
+        get bufferedAmount(): number {
+            return dc.bufferedAmount;
+        },
+        close(): void {
+            dc.close();
+        },
+        send(message: Uint8Array): void {
+            dc.send(message);
+        },
+    };
+
+    // Bind events
+    return new Promise((resolve, reject) => {
+        let open = false;
+        dc.onopen = () => {
+            open = true;
+            resolve(handler);
+        };
+        dc.onclose = () => {
+            if (open) {
+                link.closed();
+            } else {
+                reject(new Error('Data channel closed before it opened'));
+            }
+        };
+        dc.onerror = (event: Event) => {
+            if (!open) {
+                reject(new Error(`Data channel errored before it opened: ${event}`));
+            }
+        };
+        dc.onmessage = (event: MessageEvent) => link.receive(new Uint8Array(event.data));
+        dc.onbufferedamountlow = () => link.bufferedAmountLow();
+    });
+}
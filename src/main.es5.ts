@@ -7,4 +7,8 @@
  * of the MIT license.  See the `LICENSE.md` file for details.
  */
 import "../node_modules/@babel/polyfill/dist/polyfill"; // Include ES5 polyfills
-export {DataChannelCryptoContext, WebRTCTaskBuilder} from "./main";
+export {
+    CandidateFilters, CandidateTransforms, createDataChannelHandler, CryptoWorker,
+    DataChannelCryptoContext, DecryptingStream, EncryptingStream, PeerConnectionBinder,
+    SecureDataChannel, serveCryptoWorker, WebRTCTaskBuilder,
+} from "./main";
@@ -6,5 +6,11 @@
  * This software may be modified and distributed under the terms
  * of the MIT license.  See the `LICENSE.md` file for details.
  */
+export {PeerConnectionBinder} from "./binder";
+export {CandidateFilters, CandidateTransforms} from "./candidates";
+export {SecureDataChannel} from "./channel";
 export {DataChannelCryptoContext} from "./crypto";
+export {createDataChannelHandler} from "./handler";
+export {DecryptingStream, EncryptingStream} from "./stream";
+export {CryptoWorker, serveCryptoWorker} from "./worker";
 export {WebRTCTaskBuilder} from "./task";
@@ -0,0 +1,258 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path='../saltyrtc-task-webrtc.d.ts' />
+
+type MessageValidationError = saltyrtc.tasks.webrtc.MessageValidationError;
+
+/**
+ * Declarative description of the expected shape of a value.
+ */
+export type Schema =
+    | {kind: 'string', maxLength?: number, values?: string[], nullable?: boolean}
+    | {kind: 'integer', min?: number, max?: number, nullable?: boolean}
+    | {kind: 'bytes', length?: number, nullable?: boolean}
+    | {kind: 'array', items: Schema, minItems?: number, maxItems?: number}
+    | {kind: 'object', fields: {[field: string]: Schema}, nullable?: boolean};
+
+/**
+ * Maximum length of an SDP string.
+ */
+export const MAX_SDP_LENGTH = 1048576;
+
+/**
+ * Maximum length of a candidate string.
+ */
+export const MAX_CANDIDATE_LENGTH = 4096;
+
+/**
+ * Maximum length of a candidate's media stream identification tag.
+ */
+export const MAX_SDP_MID_LENGTH = 256;
+
+/**
+ * Maximum amount of candidates in a single candidates message.
+ */
+export const MAX_CANDIDATES = 512;
+
+const OFFER_SCHEMA: Schema = {
+    kind: 'object',
+    fields: {
+        type: {kind: 'string', values: ['offer']},
+        offer: {
+            kind: 'object',
+            fields: {
+                type: {kind: 'string', values: ['offer']},
+                sdp: {kind: 'string', maxLength: MAX_SDP_LENGTH},
+            },
+        },
+    },
+};
+
+const ANSWER_SCHEMA: Schema = {
+    kind: 'object',
+    fields: {
+        type: {kind: 'string', values: ['answer']},
+        answer: {
+            kind: 'object',
+            fields: {
+                type: {kind: 'string', values: ['answer', 'pranswer']},
+                sdp: {kind: 'string', maxLength: MAX_SDP_LENGTH},
+            },
+        },
+    },
+};
+
+/**
+ * Schema of a single candidate. A `null` candidate signals the end of
+ * candidates.
+ */
+export const CANDIDATE_SCHEMA: Schema = {
+    kind: 'object',
+    nullable: true,
+    fields: {
+        candidate: {kind: 'string', maxLength: MAX_CANDIDATE_LENGTH},
+        sdpMid: {kind: 'string', maxLength: MAX_SDP_MID_LENGTH, nullable: true},
+        sdpMLineIndex: {kind: 'integer', min: 0, max: 65535, nullable: true},
+    },
+};
+
+const CANDIDATES_SCHEMA: Schema = {
+    kind: 'object',
+    fields: {
+        type: {kind: 'string', values: ['candidates']},
+        candidates: {
+            kind: 'array',
+            items: CANDIDATE_SCHEMA,
+            minItems: 1,
+            maxItems: MAX_CANDIDATES,
+        },
+    },
+};
+
+const HANDOVER_SCHEMA: Schema = {
+    kind: 'object',
+    fields: {
+        type: {kind: 'string', values: ['handover']},
+    },
+};
+
+const HANDOVER_ABORT_SCHEMA: Schema = {
+    kind: 'object',
+    fields: {
+        type: {kind: 'string', values: ['handover-abort']},
+    },
+};
+
+const REKEY_SCHEMA: Schema = {
+    kind: 'object',
+    fields: {
+        type: {kind: 'string', values: ['rekey']},
+        id: {kind: 'integer', min: 0, max: 65534},
+        epoch: {kind: 'integer', min: 1, max: 0xFFFFFFFF},
+        salt: {kind: 'bytes', length: 24},
+    },
+};
+
+const REKEY_ACK_SCHEMA: Schema = {
+    kind: 'object',
+    fields: {
+        type: {kind: 'string', values: ['rekey-ack']},
+        id: {kind: 'integer', min: 0, max: 65534},
+        epoch: {kind: 'integer', min: 1, max: 0xFFFFFFFF},
+    },
+};
+
+const REKEY_REJECT_SCHEMA: Schema = {
+    kind: 'object',
+    fields: {
+        type: {kind: 'string', values: ['rekey-reject']},
+        id: {kind: 'integer', min: 0, max: 65534},
+        epoch: {kind: 'integer', min: 1, max: 0xFFFFFFFF},
+    },
+};
+
+/**
+ * Schemas of all task message types.
+ */
+export const MESSAGE_SCHEMAS: {[type: string]: Schema} = {
+    offer: OFFER_SCHEMA,
+    answer: ANSWER_SCHEMA,
+    candidates: CANDIDATES_SCHEMA,
+    handover: HANDOVER_SCHEMA,
+    'handover-abort': HANDOVER_ABORT_SCHEMA,
+    rekey: REKEY_SCHEMA,
+    'rekey-ack': REKEY_ACK_SCHEMA,
+    'rekey-reject': REKEY_REJECT_SCHEMA,
+};
+
+/**
+ * Validate a value against a schema.
+ *
+ * Note: Fields not described by an object schema are being ignored.
+ *
+ * @param schema The schema the value must conform to.
+ * @param value The value to be validated.
+ * @param path The path of the value, used to describe errors.
+ * @returns a list of validation errors which is empty if the value is valid.
+ */
+export function validate(schema: Schema, value: any, path: string = ''): MessageValidationError[] {
+    const errors: MessageValidationError[] = [];
+    const fail = (reason: string) => errors.push({path: path, reason: reason});
+
+    // Handle nullable values
+    if (value === null && schema.kind !== 'array' && schema.nullable === true) {
+        return errors;
+    }
+
+    switch (schema.kind) {
+        case 'string':
+            if (typeof value !== 'string' && !(value instanceof String)) {
+                fail('must be a string');
+                break;
+            }
+            if (schema.values !== undefined && schema.values.indexOf(value.toString()) === -1) {
+                fail(`must be one of ${schema.values.map((v) => `'${v}'`).join(', ')}`);
+            }
+            if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+                fail(`must not be longer than ${schema.maxLength} characters`);
+            }
+            break;
+        case 'integer':
+            if (!Number.isInteger(value)) {
+                fail('must be an integer');
+                break;
+            }
+            if (schema.min !== undefined && value < schema.min) {
+                fail(`must not be less than ${schema.min}`);
+            }
+            if (schema.max !== undefined && value > schema.max) {
+                fail(`must not be greater than ${schema.max}`);
+            }
+            break;
+        case 'bytes':
+            // Note: The signalling decodes binary data into an `ArrayBuffer`.
+            if (!(value instanceof ArrayBuffer) && !(value instanceof Uint8Array)) {
+                fail('must be a byte array');
+                break;
+            }
+            if (schema.length !== undefined && value.byteLength !== schema.length) {
+                fail(`must be ${schema.length} bytes long`);
+            }
+            break;
+        case 'array':
+            if (!Array.isArray(value)) {
+                fail('must be an array');
+                break;
+            }
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                fail(`must contain at least ${schema.minItems} item(s)`);
+            }
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+                fail(`must not contain more than ${schema.maxItems} items`);
+                break;
+            }
+            for (let i = 0; i < value.length; ++i) {
+                errors.push(...validate(schema.items, value[i], `${path}[${i}]`));
+            }
+            break;
+        case 'object':
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                fail('must be an object');
+                break;
+            }
+            for (const field of Object.keys(schema.fields)) {
+                const fieldPath = path === '' ? field : `${path}.${field}`;
+                errors.push(...validate(schema.fields[field], value[field], fieldPath));
+            }
+            break;
+    }
+    return errors;
+}
+
+/**
+ * Validate a task message against the schema of its type.
+ *
+ * @param message The task message to be validated.
+ * @returns a list of validation errors which is empty if the message is
+ *   valid.
+ */
+export function validateMessage(message: saltyrtc.messages.TaskMessage): MessageValidationError[] {
+    if (!Object.prototype.hasOwnProperty.call(MESSAGE_SCHEMAS, message.type)) {
+        return [{path: 'type', reason: 'unknown message type'}];
+    }
+    return validate(MESSAGE_SCHEMAS[message.type], message);
+}
+
+/**
+ * Describe a list of validation errors in a human readable form.
+ */
+export function describeErrors(errors: MessageValidationError[]): string {
+    return errors
+        .map((error) => error.path === '' ? error.reason : `${error.path}: ${error.reason}`)
+        .join('; ');
+}
@@ -0,0 +1,345 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path='../saltyrtc-task-webrtc.d.ts' />
+
+import * as nacl from "tweetnacl";
+
+import {DataChannelCryptoContext} from "./crypto";
+
+// Note: Not available in all environments, in which case only
+//       `ReadableStream` sources can be used.
+const ASYNC_ITERATOR: typeof Symbol.asyncIterator | undefined = typeof Symbol === 'function'
+    ? Symbol.asyncIterator : undefined;
+
+// Stream frame flags
+const FRAME_START = 0x01;
+const FRAME_END = 0x02;
+
+// Stream frame header: flags (1), stream id (4), index (4), total length (8)
+const HEADER_LENGTH = 17;
+
+/**
+ * Reads chunks from a stream source.
+ */
+interface StreamReader {
+    read(): Promise<IteratorResult<Uint8Array>>;
+    cancel(): Promise<void>;
+}
+
+/**
+ * Create a reader for a `ReadableStream` or an async iterable.
+ *
+ * @throws Error in case the source is neither a `ReadableStream` nor an
+ *   async iterable.
+ */
+function createReader(source: saltyrtc.tasks.webrtc.StreamSource): StreamReader {
+    // ReadableStream
+    if (typeof (source as ReadableStream<Uint8Array>).getReader === 'function') {
+        const reader = (source as ReadableStream<Uint8Array>).getReader();
+        return {
+            read: () => reader.read().then((result) => {
+                return result.done
+                    ? {done: true, value: undefined}
+                    : {done: false, value: result.value};
+            }),
+            cancel: () => reader.cancel(),
+        };
+    }
+
+    // Async iterable
+    const iterable = source as AsyncIterable<Uint8Array>;
+    const factory = ASYNC_ITERATOR !== undefined ? iterable[ASYNC_ITERATOR] : undefined;
+    if (typeof factory !== 'function') {
+        throw new Error('Stream source must be a ReadableStream or an async iterable');
+    }
+    const iterator = factory.call(iterable);
+    return {
+        read: () => iterator.next(),
+        cancel: () => {
+            if (typeof iterator.return !== 'function') {
+                return Promise.resolve();
+            }
+            return Promise.resolve(iterator.return()).then(() => undefined);
+        },
+    };
+}
+
+/**
+ * Base class of the encrypting and decrypting stream.
+ *
+ * Calls to `next` are serialised, so frames are processed in order even if
+ * the consumer does not wait for the previous result.
+ */
+abstract class CryptoStream {
+    protected readonly crypto: saltyrtc.tasks.webrtc.DataChannelCryptoContext;
+    protected readonly reader: StreamReader;
+    protected done: boolean = false;
+    private pending: Promise<any> = Promise.resolve();
+
+    // Async iterator protocol (assigned only if the symbol is available)
+    public [Symbol.asyncIterator]: () => this;
+
+    constructor(
+        crypto: saltyrtc.tasks.webrtc.DataChannelCryptoContext,
+        source: saltyrtc.tasks.webrtc.StreamSource,
+    ) {
+        this.crypto = crypto;
+        this.reader = createReader(source);
+        if (ASYNC_ITERATOR !== undefined) {
+            this[ASYNC_ITERATOR] = () => this;
+        }
+    }
+
+    /**
+     * Return the next chunk of the stream.
+     *
+     * Once the stream failed, the source will be cancelled and the stream
+     * is done.
+     */
+    public next(): Promise<IteratorResult<Uint8Array>> {
+        const result = this.pending
+            .then(() => this.nextChunk())
+            .catch((error) => {
+                if (!this.done) {
+                    this.done = true;
+                    this.reader.cancel().catch(() => undefined);
+                }
+                throw error;
+            });
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Stop the stream and cancel the source.
+     */
+    public return(): Promise<IteratorResult<Uint8Array>> {
+        const result = this.pending.then(() => {
+            if (this.done) {
+                return {done: true, value: undefined};
+            }
+            this.done = true;
+            return this.reader.cancel().then(() => ({done: true, value: undefined}));
+        });
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+
+    protected abstract nextChunk(): Promise<IteratorResult<Uint8Array>>;
+}
+
+/**
+ * Encrypts a stream of bytes by the use of a crypto context.
+ *
+ * The stream yields serialised boxes, each of which should be sent as a
+ * single message on the data channel. Every box contains a stream frame
+ * with up to `chunkLength` bytes of the source. The first frame is marked
+ * as the start frame and an additional end frame will be yielded once the
+ * source is exhausted. Every frame contains its index and the total amount
+ * of bytes streamed so far.
+ */
+export class EncryptingStream extends CryptoStream
+    implements saltyrtc.tasks.webrtc.EncryptingStream {
+    public static DEFAULT_CHUNK_LENGTH: number = 16384;
+
+    private readonly chunkLength: number;
+    private readonly streamId: number;
+    private index: number = 0;
+    private totalLength: number = 0;
+
+    // Current chunk of the source
+    private chunk: Uint8Array | null = null;
+    private offset: number = 0;
+
+    /**
+     * Create a new encrypting stream.
+     *
+     * @param crypto The crypto context of the data channel.
+     * @param source A `ReadableStream` or an async iterable of bytes.
+     * @param chunkLength The maximum amount of bytes of the source per frame.
+     *
+     * @throws Error in case the source is neither a `ReadableStream` nor an
+     *   async iterable or the chunk length is not a positive integer.
+     */
+    constructor(
+        crypto: saltyrtc.tasks.webrtc.DataChannelCryptoContext,
+        source: saltyrtc.tasks.webrtc.StreamSource,
+        chunkLength: number = EncryptingStream.DEFAULT_CHUNK_LENGTH,
+    ) {
+        if (!Number.isInteger(chunkLength) || chunkLength < 1) {
+            throw new Error('Chunk length must be a positive integer');
+        }
+        super(crypto, source);
+        this.chunkLength = chunkLength;
+        this.streamId = new DataView(nacl.randomBytes(4).buffer).getUint32(0);
+    }
+
+    protected nextChunk(): Promise<IteratorResult<Uint8Array>> {
+        if (this.done) {
+            return Promise.resolve({done: true, value: undefined});
+        }
+
+        // Continue with the remainder of the current chunk
+        if (this.chunk !== null && this.offset < this.chunk.byteLength) {
+            const end = Math.min(this.offset + this.chunkLength, this.chunk.byteLength);
+            const payload = this.chunk.subarray(this.offset, end);
+            this.offset = end;
+            return Promise.resolve({done: false, value: this.encryptFrame(0, payload)});
+        }
+
+        // Read the next chunk or end the stream
+        return this.reader.read().then((result) => {
+            if (result.done) {
+                this.done = true;
+                return {done: false, value: this.encryptFrame(FRAME_END, new Uint8Array(0))};
+            }
+            if (!(result.value instanceof Uint8Array)) {
+                throw new Error('Stream source must yield Uint8Array chunks');
+            }
+            this.chunk = result.value;
+            this.offset = 0;
+            return this.nextChunk();
+        });
+    }
+
+    /**
+     * Encrypt a stream frame and return the serialised box.
+     */
+    private encryptFrame(flags: number, payload: Uint8Array): Uint8Array {
+        if (this.index > 0xFFFFFFFF) {
+            throw new Error('Stream contains too many frames');
+        }
+        if (this.index === 0) {
+            flags |= FRAME_START;
+        }
+        this.totalLength += payload.byteLength;
+
+        // Create frame
+        const frame = new Uint8Array(HEADER_LENGTH + payload.byteLength);
+        const view = new DataView(frame.buffer);
+        view.setUint8(0, flags);
+        view.setUint32(1, this.streamId);
+        view.setUint32(5, this.index);
+        view.setUint32(9, Math.floor(this.totalLength / (2 ** 32)));
+        view.setUint32(13, this.totalLength % (2 ** 32));
+        frame.set(payload, HEADER_LENGTH);
+        ++this.index;
+
+        // Encrypt frame
+        return this.crypto.encrypt(frame).toUint8Array();
+    }
+}
+
+/**
+ * Decrypts a stream of bytes that has been encrypted by an
+ * `EncryptingStream` by the use of a crypto context.
+ *
+ * The source must yield the serialised boxes as they have been yielded by
+ * the encrypting stream, i.e. one box per chunk. The stream yields the
+ * decrypted bytes and fails with a `ValidationError` in case frames are
+ * missing, have been reordered or the source ended before the end frame.
+ */
+export class DecryptingStream extends CryptoStream
+    implements saltyrtc.tasks.webrtc.DecryptingStream {
+    private streamId: number | null = null;
+    private index: number = 0;
+    private totalLength: number = 0;
+
+    /**
+     * Create a new decrypting stream.
+     *
+     * @param crypto The crypto context of the data channel.
+     * @param source A `ReadableStream` or an async iterable of serialised
+     *   boxes.
+     *
+     * @throws Error in case the source is neither a `ReadableStream` nor an
+     *   async iterable.
+     */
+    constructor(
+        crypto: saltyrtc.tasks.webrtc.DataChannelCryptoContext,
+        source: saltyrtc.tasks.webrtc.StreamSource,
+    ) {
+        super(crypto, source);
+    }
+
+    protected nextChunk(): Promise<IteratorResult<Uint8Array>> {
+        if (this.done) {
+            return Promise.resolve({done: true, value: undefined});
+        }
+        return this.reader.read().then((result) => {
+            if (result.done) {
+                throw new saltyrtcClient.exceptions.ValidationError('Stream truncated');
+            }
+
+            // Decrypt frame
+            const box = saltyrtcClient.Box.fromUint8Array(
+                result.value, DataChannelCryptoContext.NONCE_LENGTH);
+            const payload = this.processFrame(this.crypto.decrypt(box));
+
+            // Skip empty frames
+            if (payload.byteLength === 0) {
+                return this.nextChunk();
+            }
+            return {done: false, value: payload};
+        });
+    }
+
+    /**
+     * Validate a decrypted stream frame and return its payload.
+     *
+     * @throws ValidationError in case the frame is invalid or unexpected.
+     */
+    private processFrame(frame: Uint8Array): Uint8Array {
+        if (frame.byteLength < HEADER_LENGTH) {
+            throw new saltyrtcClient.exceptions.ValidationError('Stream frame too short');
+        }
+        const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+        const flags = view.getUint8(0);
+        const streamId = view.getUint32(1);
+        const index = view.getUint32(5);
+        const totalLength = (view.getUint32(9) * (2 ** 32)) + view.getUint32(13);
+
+        // Validate flags and stream id
+        if ((flags & ~(FRAME_START | FRAME_END)) !== 0) {
+            throw new saltyrtcClient.exceptions.ValidationError(
+                `Unknown stream frame flags: ${flags}`);
+        }
+        if (this.streamId === null) {
+            if ((flags & FRAME_START) === 0) {
+                throw new saltyrtcClient.exceptions.ValidationError(
+                    'Stream does not begin with a start frame');
+            }
+            this.streamId = streamId;
+        } else {
+            if ((flags & FRAME_START) !== 0) {
+                throw new saltyrtcClient.exceptions.ValidationError('Unexpected start frame');
+            }
+            if (streamId !== this.streamId) {
+                throw new saltyrtcClient.exceptions.ValidationError('Stream id mismatch');
+            }
+        }
+
+        // Validate index and total length
+        if (index !== this.index) {
+            throw new saltyrtcClient.exceptions.ValidationError(
+                `Stream frame out of order (expected ${this.index}, got ${index})`);
+        }
+        const payload = frame.subarray(HEADER_LENGTH);
+        if (totalLength !== this.totalLength + payload.byteLength) {
+            throw new saltyrtcClient.exceptions.ValidationError('Stream length mismatch');
+        }
+        ++this.index;
+        this.totalLength = totalLength;
+
+        // End of stream?
+        if ((flags & FRAME_END) !== 0) {
+            this.done = true;
+        }
+        return payload;
+    }
+}
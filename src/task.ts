@@ -7,8 +7,38 @@
 
 /// <reference path='../saltyrtc-task-webrtc.d.ts' />
 
-import {DataChannelCryptoContext} from "./crypto";
-import {SignalingTransport, SignalingTransportLink} from "./transport";
+import {SecureDataChannel} from "./channel";
+import {DataChannelCryptoContext, KeyRotationPolicy} from "./crypto";
+import {EventEmitter} from "./events";
+import {CANDIDATE_SCHEMA, describeErrors, MAX_CANDIDATES, validate, validateMessage} from "./schema";
+import {
+    ChunkingMode, createCounters, QueueLimits, SignalingTransport, SignalingTransportLink,
+} from "./transport";
+import {WorkerCryptoContext} from "./worker";
+
+/**
+ * The settings of a WebRTCTask instance. See `WebRTCTaskBuilder` for their
+ * meaning and default values.
+ */
+export interface WebRTCTaskOptions {
+    version: saltyrtc.tasks.webrtc.WebRTCTaskVersion;
+    logLevel: saltyrtc.LogLevel;
+    handover: boolean;
+    maxChunkLength: number;
+    reliableOrderedChunking: boolean;
+    perfectNegotiation: boolean;
+    protocolErrorPolicy: saltyrtc.tasks.webrtc.ProtocolErrorPolicy | null;
+    candidateBufferingMs: number;
+    maxCandidateBatchSize: number;
+    candidateFilter: saltyrtc.tasks.webrtc.CandidateFilter | null;
+    filterIncomingCandidates: boolean;
+    candidateTransform: saltyrtc.tasks.webrtc.CandidateTransform | null;
+    handoverTimeoutMs: number;
+    queueLimits: QueueLimits;
+    maxMessageSize: number;
+    keyRotation: KeyRotationPolicy;
+    csnWarningThreshold: number;
+}
 
 /**
  * Builds a WebRTCTask instance.
@@ -20,12 +50,44 @@ import {SignalingTransport, SignalingTransportLink} from "./transport";
  * - Handover is enabled by default.
  * - The maximum chunk length for the handed over signalling channel is
  *   256 KiB.
+ * - The reliable/ordered chunking mode for the handed over signalling
+ *   channel is offered by default.
+ * - Perfect negotiation is disabled by default.
+ * - The protocol error policy defaults to `emit-event`.
+ * - Candidates are buffered for 5 ms before being sent.
+ * - A batch of up to 512 candidates is sent in a single message.
+ * - No candidate filter is applied.
+ * - No candidate transform is applied.
+ * - There is no handover timeout.
+ * - Up to 1024 incoming messages and 16 MiB are queued until the remote peer
+ *   requested handover.
+ * - Incoming messages on the handed over signalling channel may be up to
+ *   2 MiB.
+ * - Keys of data channel crypto contexts are not rotated.
+ * - A `csn-warning` event is emitted once less than 2^32 combined sequence
+ *   numbers remain for a data channel crypto context.
  */
 export class WebRTCTaskBuilder implements saltyrtc.tasks.webrtc.WebRTCTaskBuilder {
     private version: saltyrtc.tasks.webrtc.WebRTCTaskVersion = 'v1';
     private logLevel: saltyrtc.LogLevel = 'none';
     private handover: boolean = true;
     private maxChunkLength: number = 262144;
+    private reliableOrderedChunking: boolean = true;
+    private perfectNegotiation: boolean = false;
+    private protocolErrorPolicy: saltyrtc.tasks.webrtc.ProtocolErrorPolicy | null = null;
+    private candidateBufferingMs: number = 5;
+    private maxCandidateBatchSize: number = MAX_CANDIDATES;
+    private candidateFilter: saltyrtc.tasks.webrtc.CandidateFilter | null = null;
+    private filterIncomingCandidates: boolean = false;
+    private candidateTransform: saltyrtc.tasks.webrtc.CandidateTransform | null = null;
+    private handoverTimeoutMs: number = 0;
+    private queueLimits: QueueLimits = {
+        maxMessages: SignalingTransport.MAX_QUEUED_MESSAGES,
+        maxBytes: SignalingTransport.MAX_QUEUED_BYTES,
+    };
+    private maxMessageSize: number = SignalingTransport.MAX_MESSAGE_SIZE;
+    private keyRotation: KeyRotationPolicy = {maxMessages: 0, maxAgeMs: 0};
+    private csnWarningThreshold: number = DataChannelCryptoContext.DEFAULT_CSN_WARNING_THRESHOLD;
 
     /**
      * Set the logging level.
@@ -74,13 +136,285 @@ export class WebRTCTaskBuilder implements saltyrtc.tasks.webrtc.WebRTCTaskBuilde
         return this;
     }
 
+    /**
+     * Set whether the reliable/ordered chunking mode should be offered for
+     * the handed over signalling channel.
+     *
+     * The mode will only be used if both peers offer it. Otherwise, the
+     * unreliable/unordered chunking mode will be used.
+     *
+     * @param on Enable or disable offering the reliable/ordered chunking
+     *   mode.
+     */
+    public withReliableOrderedChunking(on: boolean): WebRTCTaskBuilder {
+        this.reliableOrderedChunking = on;
+        return this;
+    }
+
+    /**
+     * Set whether offer collisions should be resolved by following the
+     * perfect negotiation pattern.
+     *
+     * The responder acts as the polite peer and the initiator acts as the
+     * impolite peer. When an offer arrives while a local offer is still
+     * pending, the impolite peer ignores the incoming offer whereas the
+     * polite peer emits a `rollback` event followed by the `offer` event.
+     *
+     * @param on Enable or disable perfect negotiation.
+     */
+    public withPerfectNegotiation(on: boolean): WebRTCTaskBuilder {
+        this.perfectNegotiation = on;
+        return this;
+    }
+
+    /**
+     * Set how malformed or unexpected messages from the peer should be
+     * handled.
+     *
+     * - `ignore`: Discard the message and log a warning.
+     * - `emit-event`: Discard the message and emit a `validation-error` (for
+     *   malformed messages) or a `protocol-error` event (for unexpected
+     *   messages).
+     * - `reset`: Reset the connection with the close code `ProtocolError`.
+     *
+     * If no policy has been set, an unexpected `handover` or
+     * `handover-abort` message resets the connection (as it always did) and
+     * all other protocol errors are handled as if the policy was
+     * `emit-event`.
+     *
+     * @param policy The desired protocol error policy.
+     *
+     * @throws Error in case the policy is unknown.
+     */
+    public withProtocolErrorPolicy(
+        policy: saltyrtc.tasks.webrtc.ProtocolErrorPolicy,
+    ): WebRTCTaskBuilder {
+        if (['ignore', 'emit-event', 'reset'].indexOf(policy) === -1) {
+            throw new Error(`Unknown protocol error policy: ${policy}`);
+        }
+        this.protocolErrorPolicy = policy;
+        return this;
+    }
+
+    /**
+     * Set the amount of milliseconds candidates are being buffered before
+     * they are sent to the peer in a single message.
+     *
+     * A value of `0` disables buffering, so candidates will be sent
+     * immediately.
+     *
+     * @param ms The buffering window in milliseconds.
+     *
+     * @throws Error in case the value is not a non-negative integer.
+     */
+    public withCandidateBufferingWindow(ms: number): WebRTCTaskBuilder {
+        if (!Number.isInteger(ms) || ms < 0) {
+            throw new Error('Candidate buffering window must be a non-negative integer');
+        }
+        this.candidateBufferingMs = ms;
+        return this;
+    }
+
+    /**
+     * Set the maximum amount of candidates being sent in a single message.
+     *
+     * Once the buffer reaches this amount of candidates, they will be sent
+     * immediately without waiting for the buffering window to expire.
+     *
+     * @param size The maximum batch size, between 1 and 512.
+     *
+     * @throws Error in case the batch size is out of range.
+     */
+    public withMaxCandidateBatchSize(size: number): WebRTCTaskBuilder {
+        if (!Number.isInteger(size) || size < 1 || size > MAX_CANDIDATES) {
+            throw new Error(`Maximum candidate batch size must be between 1 and ${MAX_CANDIDATES}`);
+        }
+        this.maxCandidateBatchSize = size;
+        return this;
+    }
+
+    /**
+     * Set a filter that decides which local candidates will be sent to the
+     * peer. The filter returns `true` if a candidate should be sent and
+     * `false` if it should be dropped. See `CandidateFilters` for commonly
+     * used filters.
+     *
+     * Note: The end-of-candidates marker (`null`) will never be filtered.
+     *
+     * @param filter The candidate filter or `null` to disable filtering.
+     * @param applyToIncoming Whether the filter should also be applied to
+     *   candidates received from the peer before emitting the `candidates`
+     *   event. Defaults to `false`.
+     */
+    public withCandidateFilter(
+        filter: saltyrtc.tasks.webrtc.CandidateFilter | null, applyToIncoming: boolean = false,
+    ): WebRTCTaskBuilder {
+        this.candidateFilter = filter;
+        this.filterIncomingCandidates = applyToIncoming;
+        return this;
+    }
+
+    /**
+     * Set a transform that modifies local candidates before they are sent to
+     * the peer. The transform is applied after the candidate filter and
+     * returns the (modified) candidate. See `CandidateTransforms` for
+     * commonly used transforms.
+     *
+     * Note: The end-of-candidates marker (`null`) will never be transformed.
+     *       A candidate will be dropped if the transform throws or returns an
+     *       invalid candidate.
+     *
+     * @param transform The candidate transform or `null` to disable it.
+     */
+    public withCandidateTransform(
+        transform: saltyrtc.tasks.webrtc.CandidateTransform | null,
+    ): WebRTCTaskBuilder {
+        this.candidateTransform = transform;
+        return this;
+    }
+
+    /**
+     * Set the amount of milliseconds the handover may take before it is
+     * being abandoned.
+     *
+     * The timer starts once the transport link has been requested, the
+     * handover has been initiated or the peer requested handover, whichever
+     * happens first. On expiry, the peer will be notified by a
+     * `handover-abort` message, a `handover-failed` event will be emitted
+     * and signalling continues via the WebSocket connection of the server.
+     * The peer falls back as well and closes the signalling transport.
+     *
+     * Note: Support for the `handover-abort` message is negotiated. If the
+     *       peer does not support it, only this peer falls back. Both peers
+     *       should configure a timeout since a peer that has not initiated
+     *       handover yet cannot receive the message on the data channel.
+     *
+     * @param ms The timeout in milliseconds or `0` to disable the timeout.
+     *
+     * @throws Error in case the value is not a non-negative integer.
+     */
+    public withHandoverTimeout(ms: number): WebRTCTaskBuilder {
+        if (!Number.isInteger(ms) || ms < 0) {
+            throw new Error('Handover timeout must be a non-negative integer');
+        }
+        this.handoverTimeoutMs = ms;
+        return this;
+    }
+
+    /**
+     * Set the limits for incoming messages on the handed over signalling
+     * channel that are queued until the remote peer requested handover.
+     *
+     * The byte limit also applies to chunks pending reassembly. If a limit
+     * is exceeded, a `transport-error` event will be emitted and the task
+     * will be closed with the close code `ProtocolError`.
+     *
+     * Secure data channels created by the task use the same limits for
+     * incomplete messages and chunks pending reassembly.
+     *
+     * @param maxMessages The maximum amount of queued messages.
+     * @param maxBytes The maximum amount of queued bytes.
+     *
+     * @throws Error in case a limit is not a positive integer.
+     */
+    public withIncomingQueueLimits(maxMessages: number, maxBytes: number): WebRTCTaskBuilder {
+        if (!Number.isInteger(maxMessages) || maxMessages < 1
+            || !Number.isInteger(maxBytes) || maxBytes < 1) {
+            throw new Error('Incoming queue limits must be positive integers');
+        }
+        this.queueLimits = {maxMessages, maxBytes};
+        return this;
+    }
+
+    /**
+     * Set the maximum size of an incoming message on the handed over
+     * signalling channel.
+     *
+     * The size is enforced while reassembling chunks and applies to the
+     * encrypted message. If an incoming message exceeds the size, a
+     * `transport-error` event will be emitted and the task will be closed
+     * with the close code `ProtocolError`. The size applies to secure data
+     * channels created by the task as well.
+     *
+     * @param size The maximum message size in bytes.
+     *
+     * @throws Error in case the size is not a positive integer.
+     */
+    public withMaxMessageSize(size: number): WebRTCTaskBuilder {
+        if (!Number.isInteger(size) || size < 1) {
+            throw new Error('Maximum message size must be a positive integer');
+        }
+        this.maxMessageSize = size;
+        return this;
+    }
+
+    /**
+     * Set when the keys of data channel crypto contexts created by the task
+     * should be rotated.
+     *
+     * Key rotation will only be used if the remote peer has enabled it as
+     * well. A limit of `0` disables the respective trigger. If both limits
+     * are `0`, key rotation is disabled.
+     *
+     * @param maxMessages The amount of messages encrypted with a key before
+     *   it will be rotated.
+     * @param maxAgeMs The amount of milliseconds a key will be used before it
+     *   will be rotated.
+     *
+     * @throws Error in case a limit is not a non-negative integer.
+     */
+    public withKeyRotation(maxMessages: number, maxAgeMs: number = 0): WebRTCTaskBuilder {
+        if (!Number.isInteger(maxMessages) || maxMessages < 0
+            || !Number.isInteger(maxAgeMs) || maxAgeMs < 0) {
+            throw new Error('Key rotation limits must be non-negative integers');
+        }
+        this.keyRotation = {maxMessages, maxAgeMs};
+        return this;
+    }
+
+    /**
+     * Set the amount of remaining combined sequence numbers of a data
+     * channel crypto context at which a `csn-warning` event will be emitted.
+     *
+     * Once all combined sequence numbers have been used up, the crypto
+     * context refuses to encrypt further messages.
+     *
+     * @param threshold The amount of remaining combined sequence numbers.
+     *
+     * @throws Error in case the threshold is not a non-negative integer.
+     */
+    public withCsnWarningThreshold(threshold: number): WebRTCTaskBuilder {
+        if (!Number.isInteger(threshold) || threshold < 0) {
+            throw new Error('CSN warning threshold must be a non-negative integer');
+        }
+        this.csnWarningThreshold = threshold;
+        return this;
+    }
+
     /**
      * Build the WebRTCTask instance.
      * @returns WebRTCTask
      */
     public build(): WebRTCTask {
-        return new WebRTCTask(
-            this.version, this.logLevel, this.handover, this.maxChunkLength);
+        return new WebRTCTask({
+            version: this.version,
+            logLevel: this.logLevel,
+            handover: this.handover,
+            maxChunkLength: this.maxChunkLength,
+            reliableOrderedChunking: this.reliableOrderedChunking,
+            perfectNegotiation: this.perfectNegotiation,
+            protocolErrorPolicy: this.protocolErrorPolicy,
+            candidateBufferingMs: this.candidateBufferingMs,
+            maxCandidateBatchSize: this.maxCandidateBatchSize,
+            candidateFilter: this.candidateFilter,
+            filterIncomingCandidates: this.filterIncomingCandidates,
+            candidateTransform: this.candidateTransform,
+            handoverTimeoutMs: this.handoverTimeoutMs,
+            queueLimits: this.queueLimits,
+            maxMessageSize: this.maxMessageSize,
+            keyRotation: this.keyRotation,
+            csnWarningThreshold: this.csnWarningThreshold,
+        });
     }
 }
 
@@ -100,18 +434,21 @@ export class WebRTCTaskBuilder implements saltyrtc.tasks.webrtc.WebRTCTaskBuilde
  * To send offer/answer/candidates, use the corresponding public methods on
  * this task.
  */
-export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
+export class WebRTCTask extends EventEmitter implements saltyrtc.tasks.webrtc.WebRTCTask {
     // Data fields
     private static FIELD_EXCLUDE = 'exclude';
     private static FIELD_HANDOVER = 'handover';
+    private static FIELD_RELIABLE_ORDERED_CHUNKING = 'reliable_ordered_chunking';
+    private static FIELD_KEY_ROTATION = 'key_rotation';
+    private static FIELD_HANDOVER_ABORT = 'handover_abort';
     private static FIELD_MAX_PACKET_SIZE = 'max_packet_size'; // legacy v0
 
     // Protocol version
     public readonly version: saltyrtc.tasks.webrtc.WebRTCTaskVersion;
 
     // Logging
-    private readonly log: saltyrtc.Log;
-    private logTag = '[SaltyRTC.WebRTC]';
+    protected readonly log: saltyrtc.Log;
+    protected logTag = '[SaltyRTC.WebRTC]';
 
     // Initialization state
     private initialized = false;
@@ -120,34 +457,92 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
     private readonly exclude: Set<number> = new Set();
     private channelId: number;
 
+    // Live crypto contexts by data channel id
+    private readonly cryptoContexts: Map<number, DataChannelCryptoContext> = new Map();
+
+    // Key rotation
+    private readonly keyRotation: KeyRotationPolicy;
+    private keyRotationNegotiated: boolean = false;
+
+    // CSN exhaustion warning
+    private readonly csnWarningThreshold: number;
+
     // Signaling
     private _signaling: saltyrtc.Signaling;
 
     // Signalling transport
     private doHandover: boolean;
     private maxChunkLength: number;
+    private chunkingMode: ChunkingMode;
     private link: SignalingTransportLink | null = null;
     private transport: SignalingTransport | null = null;
-
-    // Events
-    private eventRegistry: saltyrtc.EventRegistry = new saltyrtcClient.EventRegistry();
+    private readonly queueLimits: QueueLimits;
+    private readonly maxMessageSize: number;
+
+    // Handover completion
+    private handoverWaiters: Array<{
+        resolve: () => void,
+        reject: (error: Error) => void,
+    }> = [];
+    private handoverFailure: Error | null = null;
+    private handoverAbandoned: boolean = false;
+    private handoverAbortSupported: boolean = false;
+    private readonly handoverTimeoutMs: number;
+    private handoverTimer: number | null = null;
+
+    // Statistics
+    private transportCounters = createCounters();
+    private handoverTime: number | null = null;
+
+    // Perfect negotiation
+    public readonly perfectNegotiation: boolean;
+    private localOfferPending = false;
+
+    // Protocol error handling
+    // Note: `null` if no policy has been set explicitly.
+    private readonly protocolErrorPolicy: saltyrtc.tasks.webrtc.ProtocolErrorPolicy | null;
+
+    // Description transforms
+    private readonly descriptionTransforms: {
+        [direction: string]: saltyrtc.tasks.webrtc.DescriptionTransform[],
+    } = {outgoing: [], incoming: []};
 
     // Candidate buffering
-    private static CANDIDATE_BUFFERING_MS = 5;
+    private readonly candidateBufferingMs: number;
+    private readonly maxCandidateBatchSize: number;
+    private readonly candidateFilter: saltyrtc.tasks.webrtc.CandidateFilter | null;
+    private readonly filterIncomingCandidates: boolean;
+    private readonly candidateTransform: saltyrtc.tasks.webrtc.CandidateTransform | null;
     private candidates: saltyrtc.tasks.webrtc.Candidate[] = [];
     private sendCandidatesTimeout: number | null = null;
 
     /**
      * Create a new task instance.
+     *
+     * Note: Use the `WebRTCTaskBuilder` to create a task.
+     *
+     * @param options The settings of the task.
      */
-    public constructor(
-        version: saltyrtc.tasks.webrtc.WebRTCTaskVersion, logLevel: saltyrtc.LogLevel,
-        handover: boolean, maxChunkLength: number,
-    ) {
-        this.version = version;
-        this.log = new saltyrtcClient.Log(logLevel);
-        this.doHandover = handover;
-        this.maxChunkLength = maxChunkLength;
+    public constructor(options: WebRTCTaskOptions) {
+        super();
+        this.version = options.version;
+        this.log = new saltyrtcClient.Log(options.logLevel);
+        this.doHandover = options.handover;
+        this.maxChunkLength = options.maxChunkLength;
+        this.chunkingMode = options.reliableOrderedChunking
+            ? 'reliable-ordered' : 'unreliable-unordered';
+        this.perfectNegotiation = options.perfectNegotiation;
+        this.protocolErrorPolicy = options.protocolErrorPolicy;
+        this.candidateBufferingMs = options.candidateBufferingMs;
+        this.maxCandidateBatchSize = options.maxCandidateBatchSize;
+        this.candidateFilter = options.candidateFilter;
+        this.filterIncomingCandidates = options.filterIncomingCandidates;
+        this.candidateTransform = options.candidateTransform;
+        this.handoverTimeoutMs = options.handoverTimeoutMs;
+        this.queueLimits = options.queueLimits;
+        this.maxMessageSize = options.maxMessageSize;
+        this.keyRotation = options.keyRotation;
+        this.csnWarningThreshold = options.csnWarningThreshold;
     }
 
     /**
@@ -165,6 +560,15 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
         return this._signaling;
     }
 
+    /**
+     * Return whether this peer acts as the polite peer when resolving offer
+     * collisions. The responder is the polite peer, the initiator is the
+     * impolite peer.
+     */
+    public get polite(): boolean {
+        return this.signaling.role === 'responder';
+    }
+
     // noinspection JSUnusedGlobalSymbols
     /**
      * Initialize the task with the task data from the peer.
@@ -175,6 +579,10 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
     public init(signaling: saltyrtc.Signaling, data: Object): void {
         this.processExcludeList(data[WebRTCTask.FIELD_EXCLUDE] as number[]);
         this.processHandover(data[WebRTCTask.FIELD_HANDOVER] as boolean);
+        this.processReliableOrderedChunking(
+            data[WebRTCTask.FIELD_RELIABLE_ORDERED_CHUNKING] as boolean);
+        this.processKeyRotation(data[WebRTCTask.FIELD_KEY_ROTATION] as boolean);
+        this.processHandoverAbort(data[WebRTCTask.FIELD_HANDOVER_ABORT] as boolean);
         if (this.version === 'v0') {
             this.processMaxPacketSize(data[WebRTCTask.FIELD_MAX_PACKET_SIZE] as number);
         }
@@ -212,6 +620,48 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
         }
     }
 
+    /**
+     * Process the reliable/ordered chunking field from the peer.
+     *
+     * The reliable/ordered chunking mode will only be used if both peers
+     * offered it. Otherwise, fall back to the unreliable/unordered mode.
+     */
+    private processReliableOrderedChunking(reliableOrderedChunking: boolean): void {
+        if (reliableOrderedChunking !== true) {
+            this.chunkingMode = 'unreliable-unordered';
+        }
+        this.log.debug(this.logTag, `Chunking mode: ${this.chunkingMode}`);
+    }
+
+    /**
+     * Process the key rotation field from the peer.
+     *
+     * Keys will only be rotated if both peers enabled key rotation.
+     */
+    private processKeyRotation(keyRotation: boolean): void {
+        this.keyRotationNegotiated = this.isKeyRotationEnabled() && keyRotation === true;
+        this.log.debug(this.logTag, `Key rotation enabled by peer: ${keyRotation === true}, ` +
+            `negotiated: ${this.keyRotationNegotiated}`);
+    }
+
+    /**
+     * Return whether key rotation has been enabled locally.
+     */
+    private isKeyRotationEnabled(): boolean {
+        return this.keyRotation.maxMessages > 0 || this.keyRotation.maxAgeMs > 0;
+    }
+
+    /**
+     * Process the handover abort field from the peer.
+     *
+     * The `handover-abort` message will only be sent if the peer supports it.
+     */
+    private processHandoverAbort(handoverAbort: boolean): void {
+        this.handoverAbortSupported = handoverAbort === true;
+        this.log.debug(
+            this.logTag, `Handover abort supported by peer: ${this.handoverAbortSupported}`);
+    }
+
     /**
      * The max_packet_size field MUST contain either 0 or a positive integer.
      * If one client's value is 0 but the other client's value is greater than
@@ -268,23 +718,50 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
     public onTaskMessage(message: saltyrtc.messages.TaskMessage): void {
         this.log.debug(this.logTag, 'New task message arrived: ' + message.type);
         switch (message.type) {
-            case 'offer':
-                if (this.validateOffer(message) !== true) return;
-                this.emit({type: 'offer', data: message['offer']});
+            case 'offer': {
+                if (this.validateIncoming(message) !== true) return;
+                const offer = this.transformIncoming('offer', message['offer']);
+                if (offer === null) return;
+                if (this.perfectNegotiation && this.localOfferPending) {
+                    if (!this.handleOfferCollision()) return;
+                }
+                this.emit({type: 'offer', data: offer});
                 break;
-            case 'answer':
-                if (this.validateAnswer(message) !== true) return;
-                this.emit({type: 'answer', data: message['answer']});
+            }
+            case 'answer': {
+                if (this.validateIncoming(message) !== true) return;
+                const answer = this.transformIncoming('answer', message['answer']);
+                if (answer === null) return;
+                this.localOfferPending = false;
+                this.emit({type: 'answer', data: answer});
                 break;
+            }
             case 'candidates':
-                if (this.validateCandidates(message) !== true) return;
-                this.emit({type: 'candidates', data: message['candidates']});
+                if (this.validateIncoming(message) !== true) return;
+                let candidates = message['candidates'] as saltyrtc.tasks.webrtc.Candidate[];
+                if (this.filterIncomingCandidates) {
+                    candidates = this.filterCandidates(candidates);
+                    if (candidates.length === 0) return;
+                }
+                this.emit({type: 'candidates', data: candidates});
                 break;
             case 'handover':
+                if (this.validateIncoming(message) !== true) return;
+
                 // Ensure handover has been negotiated
                 if (!this.doHandover) {
-                    this.log.error(this.logTag, 'Received unexpected handover message from peer');
-                    this.signaling.resetConnection(saltyrtcClient.CloseCode.ProtocolError);
+                    this.handleProtocolError(
+                        {type: 'protocol-error', data: {
+                            type: message.type,
+                            reason: 'Handover has not been negotiated',
+                        }},
+                        'Received unexpected handover message from peer', true);
+                    break;
+                }
+
+                // Discard handover requests once handover has been abandoned
+                if (this.handoverFailure !== null) {
+                    this.log.warn(this.logTag, 'Ignoring handover request, handover failed');
                     break;
                 }
 
@@ -297,89 +774,352 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
                     break;
                 }
 
+                // Process the message queue of the signaling transport (if any)
+                // Note: This MUST happen before the state is being updated since
+                //       the peer may have abandoned handover in the meantime, in
+                //       which case the queue contains a `handover-abort` message.
+                if (this.transport !== null) {
+                    this.transport.processMessageQueue();
+                    if (this.handoverAbandoned) {
+                        break;
+                    }
+                }
+
                 // Update state
                 this.signaling.handoverState.peer = true;
+                this.startHandoverTimer();
 
-                // Flush the message queue of the signaling transport (if any)
-                if (this.transport !== null) {
-                    this.transport.flushMessageQueue();
-                }
+                // Peer handover finished
+                this.emit({type: 'handover:peer'});
 
                 // Handover process completed?
-                if (this.signaling.handoverState.both) {
-                    this.log.info(this.logTag, 'Handover to data channel finished');
+                this.checkHandoverComplete();
+                break;
+            case 'handover-abort':
+                if (this.validateIncoming(message) !== true) return;
+
+                // Ensure handover has been negotiated
+                if (!this.doHandover) {
+                    this.handleProtocolError(
+                        {type: 'protocol-error', data: {
+                            type: message.type,
+                            reason: 'Handover has not been negotiated',
+                        }},
+                        'Received unexpected handover-abort message from peer', true);
+                    break;
                 }
+                this.handleHandoverAbort();
+                break;
+            case 'rekey':
+            case 'rekey-ack':
+            case 'rekey-reject':
+                if (this.validateIncoming(message) !== true) return;
+                this.handleKeyRotationMessage(message);
                 break;
             default:
-                this.log.error(this.logTag, 'Received message with unknown type:', message.type);
+                this.handleProtocolError(
+                    {type: 'protocol-error', data: {
+                        type: message.type,
+                        reason: 'Unknown message type',
+                    }},
+                    `Received message with unknown type: ${message.type}`);
         }
     }
 
     /**
-     * Return whether an offer message looks valid.
+     * Forward a `rekey`, `rekey-ack` or `rekey-reject` message to the crypto
+     * context of the data channel id.
+     *
+     * A `rekey` message for an unknown data channel id is answered with a
+     * `rekey-reject` message, so the peer keeps using its current key.
      */
-    private validateOffer(message: saltyrtc.messages.TaskMessage): boolean {
-        if (message['offer'] === undefined) {
-            this.log.warn(this.logTag, 'Offer message does not contain offer');
-            return false;
+    private handleKeyRotationMessage(message: saltyrtc.messages.TaskMessage): void {
+        // Ensure key rotation has been negotiated
+        if (!this.keyRotationNegotiated) {
+            this.handleProtocolError(
+                {type: 'protocol-error', data: {
+                    type: message.type,
+                    reason: 'Key rotation has not been negotiated',
+                }},
+                `Received unexpected ${message.type} message from peer`);
+            return;
         }
-        if (message['offer']['sdp'] === undefined) {
-            this.log.warn(this.logTag, 'Offer message does not contain offer sdp');
-            return false;
+
+        // Note: The crypto context may already have been released locally
+        //       or may not have been created yet, so this is not being
+        //       treated as a protocol error.
+        const crypto = this.cryptoContexts.get(message['id']);
+        if (crypto === undefined) {
+            if (message.type === 'rekey') {
+                this.log.warn(this.logTag,
+                    `Rejecting rekey message for unknown data channel id ${message['id']}`);
+                this.sendKeyRotationMessage(
+                    {type: 'rekey-reject', id: message['id'], epoch: message['epoch']});
+            } else {
+                this.log.warn(this.logTag, `Ignoring ${message.type} message for unknown ` +
+                    `data channel id ${message['id']}`);
+            }
+            return;
+        }
+
+        // Update keys
+        // Note: The signalling decodes binary data into an `ArrayBuffer`.
+        try {
+            if (message.type === 'rekey') {
+                const salt: ArrayBuffer | Uint8Array = message['salt'];
+                crypto.onRekey(
+                    message['epoch'], salt instanceof ArrayBuffer ? new Uint8Array(salt) : salt);
+            } else if (message.type === 'rekey-ack') {
+                crypto.onRekeyAck(message['epoch']);
+            } else {
+                this.log.warn(this.logTag,
+                    `Peer rejected key rotation for data channel id ${message['id']}`);
+                crypto.onRekeyReject(message['epoch']);
+            }
+        } catch (error) {
+            if (error.name !== 'ValidationError') {
+                throw error;
+            }
+            this.handleProtocolError(
+                {type: 'protocol-error', data: {type: message.type, reason: error.message}},
+                `Invalid ${message.type} message: ${error.message}`);
         }
-        return true;
     }
 
     /**
-     * Return whether an answer message looks valid.
+     * Send a `rekey`, `rekey-ack` or `rekey-reject` message to the peer.
      */
-    private validateAnswer(message: saltyrtc.messages.TaskMessage): boolean {
-        if (message['answer'] === undefined) {
-            this.log.warn(this.logTag, 'Answer message does not contain answer');
-            return false;
+    private sendKeyRotationMessage(message: saltyrtc.messages.TaskMessage): void {
+        this.log.debug(this.logTag, `Sending ${message.type}`);
+        this.validateOutgoing(message);
+        try {
+            this.signaling.sendTaskMessage(message);
+        } catch (e) {
+            if (e.name === 'SignalingError') {
+                this.log.error(this.logTag, `Could not send ${message.type}:`, e.message);
+                this.signaling.resetConnection(e.closeCode);
+            }
         }
-        if (message['answer']['sdp'] === undefined) {
-            this.log.warn(this.logTag, 'Answer message does not contain answer sdp');
+    }
+
+    /**
+     * Resolve a collision of an incoming offer with a pending local offer.
+     *
+     * The impolite peer ignores the incoming offer. The polite peer abandons
+     * its local offer and notifies the application to roll back its local
+     * description by emitting a `rollback` event.
+     *
+     * @returns whether the incoming offer should be processed.
+     */
+    private handleOfferCollision(): boolean {
+        if (!this.polite) {
+            this.log.info(this.logTag, 'Ignoring colliding offer (impolite peer)');
             return false;
         }
+        this.log.info(this.logTag, 'Rolling back local offer due to colliding offer (polite peer)');
+        this.localOfferPending = false;
+        this.emit({type: 'rollback'});
         return true;
     }
 
     /**
-     * Return whether a candidates message looks valid.
+     * Return whether an incoming task message is valid.
+     *
+     * In case the message is invalid, it will be handled according to the
+     * protocol error policy.
      */
-    private validateCandidates(message: saltyrtc.messages.TaskMessage): boolean {
-        if (message['candidates'] === undefined) {
-            this.log.warn(this.logTag, 'Candidates message does not contain candidates');
-            return false;
+    private validateIncoming(message: saltyrtc.messages.TaskMessage): boolean {
+        const errors = validateMessage(message);
+        if (errors.length === 0) {
+            return true;
         }
-        if ((message['candidates'] as any[]).length < 1) {
-            this.log.warn(this.logTag, 'Candidates message contains empty candidate list');
-            return false;
+        this.handleProtocolError(
+            {type: 'validation-error', data: {type: message.type, errors: errors}},
+            `Invalid ${message.type} message: ${describeErrors(errors)}`);
+        return false;
+    }
+
+    /**
+     * Register a transform hook for outgoing or incoming descriptions.
+     *
+     * Transforms are applied in the order they have been registered. A
+     * transform receives a copy of the description and returns the
+     * (modified) description. To reject a description, a transform throws an
+     * error whose message describes the reason. A transformed description
+     * that is malformed will be rejected as well.
+     *
+     * A rejected outgoing description results in a `ValidationError` being
+     * thrown by `sendOffer`/`sendAnswer`. A rejected incoming description
+     * will be discarded and a `description-rejected` event will be emitted.
+     *
+     * @param direction Either `outgoing` or `incoming`.
+     * @param transform The transform hook.
+     *
+     * @throws Error in case the direction is unknown.
+     */
+    public addDescriptionTransform(
+        direction: saltyrtc.tasks.webrtc.DescriptionDirection,
+        transform: saltyrtc.tasks.webrtc.DescriptionTransform,
+    ): void {
+        this.getDescriptionTransforms(direction).push(transform);
+    }
+
+    /**
+     * Remove a previously registered transform hook.
+     *
+     * @param direction Either `outgoing` or `incoming`.
+     * @param transform The transform hook.
+     *
+     * @throws Error in case the direction is unknown.
+     */
+    public removeDescriptionTransform(
+        direction: saltyrtc.tasks.webrtc.DescriptionDirection,
+        transform: saltyrtc.tasks.webrtc.DescriptionTransform,
+    ): void {
+        const transforms = this.getDescriptionTransforms(direction);
+        const index = transforms.indexOf(transform);
+        if (index !== -1) {
+            transforms.splice(index, 1);
         }
-        for (let candidate of message['candidates']) {
-            if (candidate !== null) {
-                if (typeof candidate['candidate'] !== 'string'
-                    && !(candidate['candidate'] instanceof String)) {
-                    this.log.warn(this.logTag,
-                        'Candidates message contains invalid candidate (candidate field)');
-                    return false;
-                }
-                if (typeof candidate['sdpMid'] !== 'string'
-                    && !(candidate['sdpMid'] instanceof String) && candidate['sdpMid'] !== null) {
-                    this.log.warn(this.logTag,
-                        'Candidates message contains invalid candidate (sdpMid field)');
-                    return false;
-                }
-                if (candidate['sdpMLineIndex'] !== null
-                    && !Number.isInteger(candidate['sdpMLineIndex'])) {
-                    this.log.warn(this.logTag,
-                        'Candidates message contains invalid candidate (sdpMLineIndex field)');
-                    return false;
-                }
-            }
+    }
+
+    /**
+     * Return the list of transform hooks for a direction.
+     *
+     * @throws Error in case the direction is unknown.
+     */
+    private getDescriptionTransforms(
+        direction: saltyrtc.tasks.webrtc.DescriptionDirection,
+    ): saltyrtc.tasks.webrtc.DescriptionTransform[] {
+        if (direction !== 'outgoing' && direction !== 'incoming') {
+            throw new Error(`Unknown description direction: ${direction}`);
+        }
+        return this.descriptionTransforms[direction];
+    }
+
+    /**
+     * Apply all transform hooks of a direction on a copy of the description.
+     *
+     * The transformed description is validated against the schema of the
+     * message type, so a malformed description never reaches the peer
+     * connection or the peer.
+     *
+     * @throws Error in case a transform hook rejected the description or
+     *   returned an invalid description.
+     */
+    private applyDescriptionTransforms(
+        direction: saltyrtc.tasks.webrtc.DescriptionDirection,
+        type: 'offer' | 'answer',
+        description: RTCSessionDescriptionInit,
+    ): RTCSessionDescriptionInit {
+        const transforms = this.descriptionTransforms[direction].slice();
+        let transformed: RTCSessionDescriptionInit = {
+            type: description.type,
+            sdp: description.sdp,
+        };
+        if (transforms.length === 0) {
+            return transformed;
+        }
+        for (const transform of transforms) {
+            transformed = transform(transformed);
+        }
+
+        // Validate the transformed description
+        const message = {type: type};
+        message[type] = transformed;
+        const errors = validateMessage(message);
+        if (errors.length > 0) {
+            throw new Error(`Transformed description is invalid: ${describeErrors(errors)}`);
+        }
+        return transformed;
+    }
+
+    /**
+     * Apply all incoming transform hooks on a description received from the
+     * peer.
+     *
+     * @returns the transformed description or `null` in case it has been
+     *   rejected, in which case a `description-rejected` event has been
+     *   emitted.
+     */
+    private transformIncoming(
+        type: 'offer' | 'answer', description: RTCSessionDescriptionInit,
+    ): RTCSessionDescriptionInit | null {
+        try {
+            return this.applyDescriptionTransforms('incoming', type, description);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : `${error}`;
+            this.log.warn(this.logTag, `Incoming ${description.type} rejected: ${reason}`);
+            this.emit({type: 'description-rejected', data: {
+                type: description.type,
+                reason: reason,
+            }});
+            return null;
+        }
+    }
+
+    /**
+     * Apply all outgoing transform hooks on a description to be sent to the
+     * peer.
+     *
+     * @throws ValidationError in case the description has been rejected.
+     */
+    private transformOutgoing(
+        type: 'offer' | 'answer', description: RTCSessionDescriptionInit,
+    ): RTCSessionDescriptionInit {
+        try {
+            return this.applyDescriptionTransforms('outgoing', type, description);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : `${error}`;
+            throw new saltyrtcClient.exceptions.ValidationError(
+                `Outgoing ${description.type} rejected: ${reason}`);
+        }
+    }
+
+    /**
+     * Handle a malformed or unexpected message from the peer according to
+     * the protocol error policy.
+     *
+     * @param event The event to be emitted if the policy is `emit-event`.
+     * @param description Describes the protocol error for logging purposes.
+     * @param resetByDefault Whether the connection should be reset if no
+     *   policy has been set explicitly.
+     */
+    private handleProtocolError(
+        event: saltyrtc.SaltyRTCEvent, description: string, resetByDefault: boolean = false,
+    ): void {
+        let policy = this.protocolErrorPolicy;
+        if (policy === null) {
+            policy = resetByDefault ? 'reset' : 'emit-event';
+        }
+        switch (policy) {
+            case 'ignore':
+                this.log.warn(this.logTag, `${description} (ignored)`);
+                break;
+            case 'emit-event':
+                this.log.warn(this.logTag, description);
+                this.emit(event);
+                break;
+            case 'reset':
+                this.log.error(this.logTag, `${description} (resetting connection)`);
+                this.signaling.resetConnection(saltyrtcClient.CloseCode.ProtocolError);
+                break;
+        }
+    }
+
+    /**
+     * Validate an outgoing task message and log a warning in case it is
+     * invalid.
+     *
+     * Note: Invalid messages are still being sent to remain compatible with
+     *       applications that relied on the peer to accept them.
+     */
+    private validateOutgoing(message: saltyrtc.messages.TaskMessage): void {
+        const errors = validateMessage(message);
+        if (errors.length > 0) {
+            this.log.warn(this.logTag,
+                `Sending invalid ${message.type} message: ${describeErrors(errors)}`);
         }
-        return true;
     }
 
     /**
@@ -424,7 +1164,10 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
      * application!
      */
     public getSupportedMessageTypes(): string[] {
-        return ['offer', 'answer', 'candidates', 'handover'];
+        return [
+            'offer', 'answer', 'candidates', 'handover', 'handover-abort',
+            'rekey', 'rekey-ack', 'rekey-reject',
+        ];
     }
 
     // noinspection JSUnusedGlobalSymbols
@@ -438,6 +1181,10 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
         const data = {};
         data[WebRTCTask.FIELD_EXCLUDE] = Array.from(this.exclude.values());
         data[WebRTCTask.FIELD_HANDOVER] = this.doHandover;
+        data[WebRTCTask.FIELD_RELIABLE_ORDERED_CHUNKING] =
+            this.chunkingMode === 'reliable-ordered';
+        data[WebRTCTask.FIELD_KEY_ROTATION] = this.isKeyRotationEnabled();
+        data[WebRTCTask.FIELD_HANDOVER_ABORT] = true;
         if (this.version === 'v0') {
             data[WebRTCTask.FIELD_MAX_PACKET_SIZE] = this.maxChunkLength;
         }
@@ -446,18 +1193,27 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
 
     /**
      * Send an offer message to the responder.
+     *
+     * @throws ValidationError in case the offer has been rejected by a
+     *   transform hook.
      */
     public sendOffer(offer: RTCSessionDescriptionInit): void {
         this.log.debug(this.logTag, 'Sending offer');
+        offer = this.transformOutgoing('offer', offer);
+        const message = {
+            'type': 'offer',
+            'offer': {
+                'type': offer.type,
+                'sdp': offer.sdp,
+            }
+        };
+        this.validateOutgoing(message);
+        this.localOfferPending = true;
         try {
-            this.signaling.sendTaskMessage({
-                'type': 'offer',
-                'offer': {
-                    'type': offer.type,
-                    'sdp': offer.sdp,
-                }
-            });
+            this.signaling.sendTaskMessage(message);
         } catch (e) {
+            // The offer has not been sent, so it cannot collide
+            this.localOfferPending = false;
             if (e.name === 'SignalingError') {
                 this.log.error(this.logTag, 'Could not send offer:', e.message);
                 this.signaling.resetConnection(e.closeCode);
@@ -467,17 +1223,23 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
 
     /**
      * Send an answer message to the initiator.
+     *
+     * @throws ValidationError in case the answer has been rejected by a
+     *   transform hook.
      */
     public sendAnswer(answer: RTCSessionDescriptionInit): void {
         this.log.debug(this.logTag, 'Sending answer');
+        answer = this.transformOutgoing('answer', answer);
+        const message = {
+            'type': 'answer',
+            'answer': {
+                'type': answer.type,
+                'sdp': answer.sdp,
+            }
+        };
+        this.validateOutgoing(message);
         try {
-            this.signaling.sendTaskMessage({
-                'type': 'answer',
-                'answer': {
-                    'type': answer.type,
-                    'sdp': answer.sdp,
-                }
-            });
+            this.signaling.sendTaskMessage(message);
         } catch (e) {
             if (e.name === 'SignalingError') {
                 this.log.error(this.logTag, 'Could not send answer:', e.message);
@@ -495,35 +1257,145 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
 
     /**
      * Send one or more candidates to the peer.
+     *
+     * Note: Invalid candidates are still being sent (see `validateOutgoing`).
      */
     public sendCandidates(candidates: saltyrtc.tasks.webrtc.Candidate[]): void {
+        // Validate candidates
+        const errors: saltyrtc.tasks.webrtc.MessageValidationError[] = [];
+        for (let i = 0; i < candidates.length; ++i) {
+            errors.push(...validate(CANDIDATE_SCHEMA, candidates[i], `candidates[${i}]`));
+        }
+        if (errors.length > 0) {
+            this.log.warn(this.logTag, `Sending invalid candidates: ${describeErrors(errors)}`);
+        }
+
+        // Apply candidate filter and transform
+        candidates = this.transformCandidates(this.filterCandidates(candidates));
+        if (candidates.length === 0) {
+            return;
+        }
+
         // Add to buffer
         this.log.debug(this.logTag, 'Buffering', candidates.length, 'candidate(s)');
         this.candidates.push(...candidates);
 
-        // Sending function
-        const sendFunc = () => {
+        // Flush immediately in case buffering is disabled, the end of
+        // candidates has been reached or the maximum batch size has been reached
+        if (this.candidateBufferingMs === 0
+            || candidates.indexOf(null) !== -1
+            || this.candidates.length >= this.maxCandidateBatchSize) {
+            this.flushCandidates();
+            return;
+        }
+
+        // Add a new timeout if one isn't in progress already
+        if (this.sendCandidatesTimeout === null) {
+            this.sendCandidatesTimeout = self.setTimeout(
+                () => this.flushCandidates(), this.candidateBufferingMs);
+        }
+    }
+
+    /**
+     * Apply the candidate filter (if any) to a list of candidates.
+     *
+     * Note: The end-of-candidates marker (`null`) will never be filtered. A
+     *       candidate will be dropped if the filter throws.
+     */
+    private filterCandidates(
+        candidates: saltyrtc.tasks.webrtc.Candidate[],
+    ): saltyrtc.tasks.webrtc.Candidate[] {
+        if (this.candidateFilter === null) {
+            return candidates;
+        }
+        const filtered = candidates.filter((candidate) => {
+            if (candidate === null) {
+                return true;
+            }
+            try {
+                return this.candidateFilter(candidate) === true;
+            } catch (error) {
+                this.log.error(this.logTag, 'Candidate filter threw an error:', error);
+                return false;
+            }
+        });
+        if (filtered.length < candidates.length) {
+            this.log.debug(this.logTag, 'Dropped', candidates.length - filtered.length,
+                'candidate(s) due to candidate filter');
+        }
+        return filtered;
+    }
+
+    /**
+     * Apply the candidate transform (if any) to a list of candidates.
+     *
+     * Note: The end-of-candidates marker (`null`) will never be transformed.
+     *       A candidate will be dropped if the transform throws or returns an
+     *       invalid candidate.
+     */
+    private transformCandidates(
+        candidates: saltyrtc.tasks.webrtc.Candidate[],
+    ): saltyrtc.tasks.webrtc.Candidate[] {
+        if (this.candidateTransform === null) {
+            return candidates;
+        }
+        const transformed: saltyrtc.tasks.webrtc.Candidate[] = [];
+        for (const candidate of candidates) {
+            if (candidate === null) {
+                transformed.push(candidate);
+                continue;
+            }
+            let result: saltyrtc.tasks.webrtc.Candidate;
             try {
-                this.log.debug(this.logTag, 'Sending', this.candidates.length, 'candidate(s)');
+                result = this.candidateTransform(candidate);
+            } catch (error) {
+                this.log.error(this.logTag, 'Candidate transform threw an error:', error);
+                continue;
+            }
+            const errors = validate(CANDIDATE_SCHEMA, result, 'candidate');
+            if (result === null || errors.length > 0) {
+                this.log.error(this.logTag, 'Candidate transform returned an invalid candidate:',
+                    result === null ? 'null' : describeErrors(errors));
+                continue;
+            }
+            transformed.push(result);
+        }
+        return transformed;
+    }
+
+    /**
+     * Send all buffered candidates to the peer immediately.
+     */
+    public flushCandidates(): void {
+        // Cancel pending timeout
+        if (this.sendCandidatesTimeout !== null) {
+            self.clearTimeout(this.sendCandidatesTimeout);
+            this.sendCandidatesTimeout = null;
+        }
+
+        // Nothing to do?
+        if (this.candidates.length === 0) {
+            return;
+        }
+
+        try {
+            // Note: Candidates are split into several messages in case the
+            //       buffer exceeds the maximum batch size.
+            for (let i = 0; i < this.candidates.length; i += this.maxCandidateBatchSize) {
+                const batch = this.candidates.slice(i, i + this.maxCandidateBatchSize);
+                this.log.debug(this.logTag, 'Sending', batch.length, 'candidate(s)');
                 this.signaling.sendTaskMessage({
                     'type': 'candidates',
-                    'candidates': this.candidates
+                    'candidates': batch,
                 });
-            } catch (e) {
-                if (e.name === 'SignalingError') {
-                    this.log.error(this.logTag, 'Could not send candidates:', e.message);
-                    this.signaling.resetConnection(e.closeCode);
-                }
-            } finally {
-                this.candidates = [];
-                this.sendCandidatesTimeout = null;
             }
-        };
-
-        // Add a new timeout if one isn't in progress already
-        if (this.sendCandidatesTimeout === null) {
-            this.sendCandidatesTimeout = self.setTimeout(
-                sendFunc, WebRTCTask.CANDIDATE_BUFFERING_MS);
+        } catch (e) {
+            if (e.name === 'SignalingError') {
+                this.log.error(this.logTag, 'Could not send candidates:', e.message);
+                this.signaling.resetConnection(e.closeCode);
+            }
+        } finally {
+            this.candidates = [];
         }
     }
 
@@ -573,6 +1445,7 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
         if (this.link === null) {
             this.link = new SignalingTransportLink(this.channelId, this.getName());
         }
+        this.startHandoverTimer();
         return this.link;
     }
 
@@ -582,8 +1455,8 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
      * This operation is asynchronous. To get notified when the handover is
      * finished, subscribe to the SaltyRTC `handover` event.
      *
-     * @throws Error in case handover already requested or has not been
-     *   negotiated.
+     * @throws Error in case handover already requested, has not been
+     *   negotiated or has been abandoned.
      */
     public handover(handler: saltyrtc.tasks.webrtc.SignalingTransportHandler): void {
         this.log.debug(this.logTag, 'Initiate handover');
@@ -593,20 +1466,31 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
             throw new Error('Handover has not been negotiated');
         }
 
+        // Make sure handover has not been abandoned
+        if (this.handoverFailure !== null) {
+            throw new Error('Handover has been abandoned');
+        }
+
         // Make sure handover has not already been requested
         if (this.signaling.handoverState.local || this.transport !== null) {
             throw new Error('Handover already requested');
         }
 
         // Create crypto context and new signalling transport
-        const crypto = this.createCryptoContext(this.channelId);
+        // Note: The signalling channel is reliable and ordered, so CSNs must
+        //       be strictly increasing.
+        const crypto = new DataChannelCryptoContext(
+            this.channelId, this.signaling, {replayProtection: 'strict'});
         this.transport = new SignalingTransport(
-            this.link, handler, this, this.signaling, crypto, this.log.level, this.maxChunkLength);
+            this.link, handler, this, this.signaling, crypto, this.log.level, this.maxChunkLength,
+            this.chunkingMode, this.queueLimits, this.maxMessageSize);
+        this.transportCounters = this.transport.counters;
 
         // Send handover message
         // Note: This will still be sent via the original transport since the
         //       switching logic depends on the local handover state which
         //       SHALL NOT be altered before this call.
+        this.startHandoverTimer();
         this.sendHandover();
     }
 
@@ -628,108 +1512,414 @@ export class WebRTCTask implements saltyrtc.tasks.webrtc.WebRTCTask {
 
         // Local handover finished
         this.signaling.handoverState.local = true;
+        this.emit({type: 'handover:local'});
 
         // Check whether we're done
-        if (this.signaling.handoverState.both) {
-            this.log.info(this.logTag, 'Handover to data channel finished');
+        this.checkHandoverComplete();
+    }
+
+    /**
+     * Emit the `handover:complete` event and resolve all pending handover
+     * promises in case both peers have finished handover.
+     */
+    private checkHandoverComplete(): void {
+        if (!this.signaling.handoverState.both) {
+            return;
+        }
+        this.log.info(this.logTag, 'Handover to data channel finished');
+        this.handoverTime = Date.now();
+        this.stopHandoverTimer();
+        this.emit({type: 'handover:complete'});
+        const waiters = this.handoverWaiters;
+        this.handoverWaiters = [];
+        for (const waiter of waiters) {
+            waiter.resolve();
         }
     }
 
     /**
-     * Return a crypto context to encrypt and decrypt data for a data channel
-     * with a specific id.
+     * Reject all pending handover promises unless handover has already been
+     * completed.
+     */
+    private failHandover(error: Error): void {
+        if (this.handoverFailure !== null
+            || (this.signaling !== undefined && this.signaling.handoverState.both)) {
+            return;
+        }
+        this.handoverFailure = error;
+        const waiters = this.handoverWaiters;
+        this.handoverWaiters = [];
+        for (const waiter of waiters) {
+            waiter.reject(error);
+        }
+    }
+
+    /**
+     * Start the handover timer (if configured and not already running).
+     */
+    private startHandoverTimer(): void {
+        if (this.handoverTimeoutMs === 0 || this.handoverTimer !== null
+            || this.handoverFailure !== null) {
+            return;
+        }
+        this.handoverTimer = self.setTimeout(() => {
+            this.handoverTimer = null;
+            this.abandonHandover(`Handover did not complete within ${this.handoverTimeoutMs} ms`);
+        }, this.handoverTimeoutMs);
+    }
+
+    /**
+     * Stop the handover timer (if running).
+     */
+    private stopHandoverTimer(): void {
+        if (this.handoverTimer !== null) {
+            self.clearTimeout(this.handoverTimer);
+            this.handoverTimer = null;
+        }
+    }
+
+    /**
+     * Abandon the handover and continue using the WebSocket connection of the
+     * server for signalling.
      *
-     * @param channelId The data channel's id.
+     * The peer is notified by a `handover-abort` message if it supports it.
+     * The signalling transport (if any) remains open until the peer closes
+     * it after it fell back to the WebSocket connection as well.
+     *
+     * Note: A peer that does not support the `handover-abort` message would
+     *       reset the connection on receiving it, so only this peer falls
+     *       back in that case.
+     *
+     * @param reason The reason why handover has been abandoned.
      */
-    public createCryptoContext(channelId: number): DataChannelCryptoContext {
-        return new DataChannelCryptoContext(channelId, this.signaling);
+    private abandonHandover(reason: string): void {
+        if (this.signaling.handoverState.both || this.handoverAbandoned) {
+            return;
+        }
+        this.log.warn(this.logTag, `Abandoning handover: ${reason}`);
+
+        // Notify the peer
+        // Note: This will be sent via the channel the peer currently expects
+        //       messages on since the local handover state SHALL NOT be
+        //       altered before this call.
+        if (this.handoverAbortSupported) {
+            this.sendHandoverAbort();
+        } else {
+            this.log.debug(this.logTag, 'Peer does not support handover-abort, not notifying');
+        }
+
+        // Fall back to the WebSocket connection
+        this.fallBack(reason);
+        if (this.transport !== null) {
+            this.transport.abandon();
+        }
     }
 
-    // noinspection JSUnusedGlobalSymbols
     /**
-     * Close the signaling data channel.
+     * Handle a `handover-abort` message of the peer.
      *
-     * @param reason The close code.
+     * The peer already fell back to the WebSocket connection, so the
+     * signalling transport (if any) can be closed.
+     *
+     * Note: In case handover has already been completed locally, the
+     *       WebSocket connection has been closed, so the signalling channel
+     *       is closed as well.
      */
-    public close(reason: number): void {
-        this.log.debug(this.logTag, 'Closing signaling data channel:',
-            saltyrtcClient.explainCloseCode(reason));
+    private handleHandoverAbort(): void {
+        const completed = this.signaling.handoverState.both;
+        if (completed) {
+            this.log.error(this.logTag, 'Peer abandoned handover after it has been completed');
+        } else if (!this.handoverAbandoned) {
+            this.log.warn(this.logTag, 'Peer abandoned handover');
+            this.fallBack('Handover has been abandoned by the peer');
+        }
         if (this.transport !== null) {
             this.transport.close();
+            this.transport = null;
+        }
+        if (completed) {
+            this.signaling.setState('closed');
         }
-        this.transport = null;
     }
 
     /**
-     * Attach an event handler to the specified event(s).
+     * Send a handover-abort message to the peer.
+     */
+    private sendHandoverAbort(): void {
+        this.log.debug(this.logTag, 'Sending handover-abort');
+        try {
+            this.signaling.sendTaskMessage({'type': 'handover-abort'});
+        } catch (e) {
+            if (e.name === 'SignalingError') {
+                this.log.error(this.logTag, 'Could not send handover-abort message', e.message);
+                this.signaling.resetConnection(e.closeCode);
+            } else {
+                this.log.error(this.logTag, 'Could not send handover-abort message:', e);
+            }
+        }
+    }
+
+    /**
+     * Reset the handover state, so signalling continues via the WebSocket
+     * connection, and notify the application.
      *
-     * Note: The same event handler object be registered twice. It will only
-     * run once.
+     * @param reason The reason why handover has been abandoned.
      */
-    public on(event: string | string[], handler: saltyrtc.SaltyRTCEventHandler): void {
-        this.eventRegistry.register(event, handler);
+    private fallBack(reason: string): void {
+        this.handoverAbandoned = true;
+        this.stopHandoverTimer();
+        this.signaling.handoverState.reset();
+        this.emit({type: 'handover-failed', data: reason});
+        this.failHandover(new Error(reason));
     }
 
     /**
-     * Attach a one-time event handler to the specified event(s).
+     * Return a promise that resolves once handover has been completed by
+     * both peers.
      *
-     * Note: If the same handler was already registered previously as a regular
-     * event handler, it will be completely removed after running once.
+     * The promise rejects if handover has not been negotiated or the
+     * signalling transport or the task closes before handover completed.
      */
-    public once(event: string | string[], handler: saltyrtc.SaltyRTCEventHandler): void {
-        const onceHandler: saltyrtc.SaltyRTCEventHandler = (ev: saltyrtc.SaltyRTCEvent) => {
-            try {
-                handler(ev);
-            } catch (e) {
-                // Handle exceptions
-                this.off(ev.type, onceHandler);
-                throw e;
-            }
-            this.off(ev.type, onceHandler);
+    public whenHandoverComplete(): Promise<void> {
+        if (this.initialized && !this.doHandover) {
+            return Promise.reject(new Error('Handover has not been negotiated'));
+        }
+        if (this.handoverFailure !== null) {
+            return Promise.reject(this.handoverFailure);
+        }
+        if (this.initialized && this.signaling.handoverState.both) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve, reject) => {
+            this.handoverWaiters.push({resolve, reject});
+        });
+    }
+
+    /**
+     * Return statistics of the handed over signalling channel.
+     *
+     * All counters are zero until handover has been requested. The counters
+     * of the signalling transport remain available after it has been closed.
+     */
+    public getStats(): saltyrtc.tasks.webrtc.SignalingTransportStats {
+        const counters = this.transportCounters;
+        return {
+            messagesSent: counters.messagesSent,
+            chunksSent: counters.chunksSent,
+            bytesSent: counters.bytesSent,
+            messagesReceived: counters.messagesReceived,
+            chunksReceived: counters.chunksReceived,
+            bytesReceived: counters.bytesReceived,
+            queuedMessages: counters.queuedMessages,
+            decryptFailures: counters.decryptFailures,
+            chunkErrors: counters.chunkErrors,
+            handoverTime: this.handoverTime,
         };
-        this.eventRegistry.register(event, onceHandler);
     }
 
     /**
-     * Remove an event handler from the specified event(s).
+     * Called by the signalling transport when it failed or the underlying
+     * data channel has been closed by the remote side. Emits a
+     * `transport-error` event.
      *
-     * If no handler is specified, remove all handlers for the specified
-     * event(s).
+     * This method should only be called by the signalling transport, not by
+     * the application!
+     */
+    public onTransportError(error: saltyrtc.tasks.webrtc.SignalingTransportError): void {
+        this.log.warn(this.logTag, `Signalling transport error (${error.kind}): ${error.message}`);
+        this.emit({type: 'transport-error', data: error});
+    }
+
+    /**
+     * Called by a crypto context once the amount of remaining combined
+     * sequence numbers dropped to or below the threshold. Emits a
+     * `csn-warning` event.
+     */
+    private onCsnWarning(channelId: number, remaining: number): void {
+        this.log.warn(this.logTag, `Data channel ${channelId} is running out of combined ` +
+            `sequence numbers, ${remaining} remaining`);
+        this.emit({type: 'csn-warning', data: {channelId, remaining}});
+    }
+
+    /**
+     * Called by the signalling transport when the underlying data channel
+     * has been closed by the remote side.
      *
-     * If no event name is specified, all event handlers will be cleared.
+     * This method should only be called by the signalling transport, not by
+     * the application!
      */
-    public off(event?: string | string[], handler?: saltyrtc.SaltyRTCEventHandler): void {
-        if (event === undefined) {
-            this.eventRegistry.unregisterAll();
-        } else {
-            this.eventRegistry.unregister(event, handler);
+    public onTransportClosed(): void {
+        // The peer fell back after handover has been abandoned
+        if (this.handoverAbandoned) {
+            this.transport = null;
         }
+        this.failHandover(new Error('Signalling transport closed before handover completed'));
     }
 
     /**
-     * Emit an event.
+     * Return a crypto context to encrypt and decrypt data for a data channel
+     * with a specific id.
+     *
+     * By default, the crypto context only rejects two consecutive messages
+     * with the same combined sequence number. Use the `strict` replay
+     * protection mode for reliable/ordered data channels and the `window`
+     * mode for unreliable/unordered data channels.
+     *
+     * Only one crypto context can be live for a data channel id. Use
+     * `releaseChannel` once the data channel has been closed to be able to
+     * reuse the id.
+     *
+     * @param channelId The data channel's id.
+     * @param options Further options, see `DataChannelCryptoContextOptions`.
+     *
+     * @throws Error in case the id is reserved for the signalling channel or
+     *   a crypto context for the id already exists.
      */
-    private emit(event: saltyrtc.SaltyRTCEvent) {
-        this.log.debug(this.logTag, 'New event:', event.type);
-        const handlers = this.eventRegistry.get(event.type);
-        for (let handler of handlers) {
-            try {
-                this.callHandler(handler, event);
-            } catch (e) {
-                this.log.error(this.logTag, 'Unhandled exception in', event.type, 'handler:', e);
+    public createCryptoContext(
+        channelId: number, options?: saltyrtc.tasks.webrtc.DataChannelCryptoContextOptions,
+    ): DataChannelCryptoContext {
+        if (this.doHandover && channelId === this.channelId) {
+            throw new Error(`Data channel id ${channelId} is reserved for the signalling channel`);
+        }
+        if (this.cryptoContexts.has(channelId)) {
+            throw new Error(`A crypto context for data channel id ${channelId} already exists`);
+        }
+        const crypto = new DataChannelCryptoContext(channelId, this.signaling, options);
+        if (this.keyRotationNegotiated) {
+            crypto.enableKeyRotation(
+                this.keyRotation, (message) => this.sendKeyRotationMessage(message));
+        }
+        crypto.enableCsnWarning(
+            this.csnWarningThreshold, (remaining) => this.onCsnWarning(channelId, remaining));
+        this.cryptoContexts.set(channelId, crypto);
+        return crypto;
+    }
+
+    /**
+     * Allocate a free data channel id and create a crypto context for it.
+     *
+     * The id will neither be in the exclude list, nor be reserved for the
+     * signalling channel, nor have a live crypto context. The application
+     * should create a negotiated data channel with the returned id.
+     *
+     * @param options Further options, see `DataChannelCryptoContextOptions`.
+     *
+     * @throws Error in case no free data channel id can be found.
+     */
+    public allocateChannel(
+        options?: saltyrtc.tasks.webrtc.DataChannelCryptoContextOptions,
+    ): saltyrtc.tasks.webrtc.AllocatedChannel {
+        for (let id = 0; id < 65535; id++) {
+            if (this.exclude.has(id) || this.cryptoContexts.has(id)
+                || (this.doHandover && id === this.channelId)) {
+                continue;
             }
+            return {id: id, crypto: this.createCryptoContext(id, options)};
+        }
+        throw new Error('No free data channel id can be found');
+    }
+
+    /**
+     * Release the crypto context of a data channel id, so the id can be
+     * allocated again. Should be called once the data channel has been
+     * closed.
+     *
+     * @param channelId The data channel's id.
+     */
+    public releaseChannel(channelId: number): void {
+        this.cryptoContexts.delete(channelId);
+    }
+
+    /**
+     * Return a crypto context with an asynchronous API which encrypts and
+     * decrypts data for a data channel with a specific id by the use of a
+     * crypto worker.
+     *
+     * The session key of the signalling cannot be processed by the worker.
+     * Therefore, key rotation must have been negotiated, so every message is
+     * encrypted with a derived key.
+     *
+     * @param channelId The data channel's id.
+     * @param worker The crypto worker.
+     * @param options Further options, see `DataChannelCryptoContextOptions`.
+     *
+     * @throws Error in case key rotation has not been negotiated, the id is
+     *   reserved for the signalling channel or a crypto context for the id
+     *   already exists.
+     */
+    public createWorkerCryptoContext(
+        channelId: number, worker: saltyrtc.tasks.webrtc.CryptoWorker,
+        options?: saltyrtc.tasks.webrtc.DataChannelCryptoContextOptions,
+    ): WorkerCryptoContext {
+        if (!this.keyRotationNegotiated) {
+            throw new Error('Key rotation has not been negotiated, crypto workers require it');
         }
+        return new WorkerCryptoContext(this.createCryptoContext(channelId, options), worker);
     }
 
     /**
-     * Call a handler with the specified event.
+     * Wrap a data channel into a `SecureDataChannel` which encrypts and
+     * decrypts all messages by the use of a crypto context associated to the
+     * data channel's id.
+     *
+     * Note that you should not wrap the data channel that is being used for
+     * handover. The task will take care of encryption and decryption itself.
+     *
+     * Once the data channel has been closed, its id will be released.
+     *
+     * @param dc The data channel to be wrapped.
+     * @param crypto An existing crypto context for the data channel's id
+     *   (e.g. of an allocated channel). If not provided, a new crypto context
+     *   will be created.
      *
-     * If the handler returns `false`, unregister it.
+     * @throws Error in case the data channel has no id yet or a crypto
+     *   context could not be created for the id.
      */
-    private callHandler(handler: saltyrtc.SaltyRTCEventHandler, event: saltyrtc.SaltyRTCEvent) {
-        const response = handler(event);
-        if (response === false) {
-            this.eventRegistry.unregister(event.type, handler);
+    public createSecureDataChannel(
+        dc: saltyrtc.tasks.webrtc.DataChannelLike,
+        crypto?: saltyrtc.tasks.webrtc.DataChannelCryptoContext
+            | saltyrtc.tasks.webrtc.AsyncDataChannelCryptoContext,
+    ): SecureDataChannel {
+        const id = dc.id;
+        if (id === null) {
+            throw new Error('Data channel has no id yet, wait until it has been opened');
         }
+        if (crypto === undefined) {
+            crypto = this.createCryptoContext(id, {
+                replayProtection: dc.ordered === false ? 'window' : 'strict',
+            });
+        }
+        const channel = new SecureDataChannel(
+            dc, crypto, this.log.level, this.maxChunkLength, this.queueLimits,
+            this.maxMessageSize);
+
+        // Release the id once the data channel has been closed (unless the
+        // id has already been released and allocated again)
+        const context = this.cryptoContexts.get(id);
+        if (context !== undefined) {
+            channel.on('close', () => {
+                if (this.cryptoContexts.get(id) === context) {
+                    this.releaseChannel(id);
+                }
+            });
+        }
+        return channel;
+    }
+
+    // noinspection JSUnusedGlobalSymbols
+    /**
+     * Close the signaling data channel.
+     *
+     * @param reason The close code.
+     */
+    public close(reason: number): void {
+        this.log.debug(this.logTag, 'Closing signaling data channel:',
+            saltyrtcClient.explainCloseCode(reason));
+        if (this.transport !== null) {
+            this.transport.close();
+        }
+        this.transport = null;
+        this.stopHandoverTimer();
+        this.failHandover(new Error('Task closed before handover completed'));
     }
 }
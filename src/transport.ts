@@ -9,6 +9,68 @@
 /// <reference types="@saltyrtc/chunked-dc" />
 
 import {DataChannelCryptoContext} from "./crypto";
+import {WebRTCTask} from "./task";
+
+/**
+ * The chunking mode used for the dedicated data channel.
+ *
+ * - `unreliable-unordered` is the mode defined by the WebRTC task v1
+ *   specification and therefore always supported.
+ * - `reliable-ordered` has a smaller header but needs to be negotiated.
+ */
+export type ChunkingMode = 'reliable-ordered' | 'unreliable-unordered';
+
+/**
+ * Limits for incoming messages queued until the remote peer requested
+ * handover. The byte limit also applies to chunks pending reassembly.
+ */
+export interface QueueLimits {
+    maxMessages: number;
+    maxBytes: number;
+}
+
+/**
+ * Describes why a signalling transport failed.
+ */
+export class SignalingTransportError extends Error
+    implements saltyrtc.tasks.webrtc.SignalingTransportError {
+    public readonly kind: saltyrtc.tasks.webrtc.SignalingTransportErrorKind;
+    public readonly cause: any;
+
+    /**
+     * Create a signalling transport error.
+     *
+     * @param kind The kind of failure.
+     * @param message A human readable description.
+     * @param cause The underlying error (if any).
+     */
+    constructor(
+        kind: saltyrtc.tasks.webrtc.SignalingTransportErrorKind, message: string, cause?: any,
+    ) {
+        super(message);
+        this.message = message;
+        this.name = 'SignalingTransportError';
+        this.kind = kind;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Create signalling transport counters with all counters set to zero.
+ */
+export function createCounters(): saltyrtc.tasks.webrtc.SignalingTransportCounters {
+    return {
+        messagesSent: 0,
+        chunksSent: 0,
+        bytesSent: 0,
+        messagesReceived: 0,
+        chunksReceived: 0,
+        bytesReceived: 0,
+        queuedMessages: 0,
+        decryptFailures: 0,
+        chunkErrors: 0,
+    };
+}
 
 /**
  * Contains all necessary information needed to create a dedicated data channel
@@ -21,6 +83,7 @@ export class SignalingTransportLink implements saltyrtc.tasks.webrtc.SignalingTr
     public readonly label = 'saltyrtc-signaling';
     public readonly id: number;
     public readonly protocol: string;
+    public readonly bufferedAmountLowThreshold = SignalingTransport.LOW_WATER_MARK;
 
     /**
      * Called by the application when the dedicated data channel moved into
@@ -28,6 +91,12 @@ export class SignalingTransportLink implements saltyrtc.tasks.webrtc.SignalingTr
      */
     public closed: () => void;
 
+    /**
+     * Called by the application when the dedicated data channel's buffered
+     * amount dropped to or below `bufferedAmountLowThreshold`.
+     */
+    public bufferedAmountLow: () => void;
+
     /**
      * Called by the application when a message has been received on the
      * dedicated data channel.
@@ -54,6 +123,9 @@ export class SignalingTransportLink implements saltyrtc.tasks.webrtc.SignalingTr
     public untie() {
         this.closed = () => { throw new Error('closed: Not tied to a SignalingTransport'); };
         this.receive = () => { throw new Error('receive: Not tied to a SignalingTransport'); };
+        // Note: The buffered amount may still drop after the transport has been closed locally,
+        //       so this is not treated as an error.
+        this.bufferedAmountLow = () => {};
     }
 
     /**
@@ -62,6 +134,7 @@ export class SignalingTransportLink implements saltyrtc.tasks.webrtc.SignalingTr
     public tie(transport: SignalingTransport) {
         this.closed = transport.closed.bind(transport);
         this.receive = transport.receiveChunk.bind(transport);
+        this.bufferedAmountLow = transport.bufferedAmountLow.bind(transport);
     }
 }
 
@@ -73,6 +146,42 @@ export class SignalingTransportLink implements saltyrtc.tasks.webrtc.SignalingTr
  * validation and chunking/unchunking.
  */
 export class SignalingTransport {
+    /**
+     * Sending chunks will be paused once the handler's buffered amount
+     * reached this amount of bytes.
+     */
+    public static HIGH_WATER_MARK = 1048576;
+
+    /**
+     * Sending chunks will be resumed once the handler's buffered amount
+     * dropped to this amount of bytes.
+     */
+    public static LOW_WATER_MARK = 262144;
+
+    /**
+     * Maximum amount of bytes of encrypted outgoing messages queued while
+     * sending is paused. Exceeding it fails the transport, so a handler that
+     * never reports a low buffered amount cannot stall sending silently.
+     */
+    public static MAX_SEND_QUEUE_BYTES = 16777216;
+
+    /**
+     * Default maximum amount of incoming messages queued until the remote
+     * peer requested handover.
+     */
+    public static MAX_QUEUED_MESSAGES = 1024;
+
+    /**
+     * Default maximum amount of bytes of incoming messages queued until the
+     * remote peer requested handover and of chunks pending reassembly.
+     */
+    public static MAX_QUEUED_BYTES = 16777216;
+
+    /**
+     * Default maximum size of a reassembled incoming (encrypted) message.
+     */
+    public static MAX_MESSAGE_SIZE = 2097152;
+
     // Logging
     private log: saltyrtc.Log;
     private logTag = '[SaltyRTC.WebRTC.SignalingTransport]';
@@ -80,18 +189,45 @@ export class SignalingTransport {
     // Underlying data channel and associated instances
     private readonly link: SignalingTransportLink;
     private readonly handler: saltyrtc.tasks.webrtc.SignalingTransportHandler;
-    private readonly task: saltyrtc.tasks.webrtc.WebRTCTask;
+    private readonly task: WebRTCTask;
     private readonly signaling: saltyrtc.Signaling;
     private readonly crypto: saltyrtc.tasks.webrtc.DataChannelCryptoContext;
 
     // Chunking
+    private readonly chunkingMode: ChunkingMode;
     private readonly chunkLength: number;
     private readonly chunkBuffer: ArrayBuffer;
     private readonly unchunker: chunkedDc.Unchunker;
+    private readonly chunkHeaderLength: number;
     private messageId: number = 0;
+    private reassemblyBytes: number = 0;
+
+    // Incoming message size limit
+    // Note: Contains the amount of payload bytes pending reassembly for each
+    //       message id (always 0 in reliable/ordered mode).
+    private readonly maxMessageSize: number;
+    private readonly pendingMessageBytes: Map<number, number> = new Map();
+
+    // Outgoing message queue
+    // Note: Messages are being encrypted into the send buffer unless a
+    //       previous message is still pending. Since the signalling channel
+    //       uses the session key, the encrypted data is copied into it.
+    private readonly sendQueue: Array<Uint8Array> = [];
+    private sendQueueBytes: number = 0;
+    private sendBuffer: Uint8Array = new Uint8Array(0);
+    private chunker: chunkedDc.Chunker | null = null;
+    private flushing: boolean = false;
 
     // Incoming message queue
+    private readonly queueLimits: QueueLimits;
     private messageQueue: Array<Uint8Array> | null;
+    private queuedBytes: number = 0;
+
+    // Handover has been abandoned
+    private abandoned: boolean = false;
+
+    // Statistics
+    public readonly counters = createCounters();
 
     /**
      * Create a new signaling transport.
@@ -104,15 +240,26 @@ export class SignalingTransport {
      *   channel ID.
      * @param logLevel The desired log level.
      * @param maxChunkLength The maximum amount of bytes used for a chunk.
+     * @param chunkingMode The negotiated chunking mode.
+     * @param queueLimits Limits for incoming messages queued until the remote
+     *   peer requested handover and for chunks pending reassembly.
+     * @param maxMessageSize The maximum size of a reassembled incoming
+     *   (encrypted) message.
      */
     constructor(
         link: SignalingTransportLink,
         handler: saltyrtc.tasks.webrtc.SignalingTransportHandler,
-        task: saltyrtc.tasks.webrtc.WebRTCTask,
+        task: WebRTCTask,
         signaling: saltyrtc.Signaling,
         crypto: saltyrtc.tasks.webrtc.DataChannelCryptoContext,
         logLevel: saltyrtc.LogLevel,
         maxChunkLength: number,
+        chunkingMode: ChunkingMode,
+        queueLimits: QueueLimits = {
+            maxMessages: SignalingTransport.MAX_QUEUED_MESSAGES,
+            maxBytes: SignalingTransport.MAX_QUEUED_BYTES,
+        },
+        maxMessageSize: number = SignalingTransport.MAX_MESSAGE_SIZE,
     ) {
         this.log = new saltyrtcClient.Log(logLevel);
         this.link = link;
@@ -120,18 +267,28 @@ export class SignalingTransport {
         this.task = task;
         this.signaling = signaling;
         this.crypto = crypto;
+        this.chunkingMode = chunkingMode;
         this.chunkLength = Math.min(this.handler.maxMessageSize, maxChunkLength);
         this.chunkBuffer = new ArrayBuffer(this.chunkLength);
+        this.queueLimits = queueLimits;
+        this.maxMessageSize = maxMessageSize;
 
         // Initialise message queue
         this.messageQueue = this.signaling.handoverState.peer ? null : [];
 
         // Create unchunker and bind events
         // Note: The unreliable/unordered unchunker must be used for backwards compatibility since
-        //       the WebRTC task v1 has been specified with the v1.0 chunking specification.
-        //       However, garbage collection is unnecessary since the channel must still be
-        //       reliable and ordered.
-        this.unchunker = new chunkedDc.UnreliableUnorderedUnchunker();
+        //       the WebRTC task v1 has been specified with the v1.0 chunking specification,
+        //       unless both peers negotiated the reliable/ordered mode. In either case,
+        //       garbage collection is unnecessary since the channel must still be reliable and
+        //       ordered.
+        if (this.chunkingMode === 'reliable-ordered') {
+            this.unchunker = new chunkedDc.ReliableOrderedUnchunker();
+            this.chunkHeaderLength = chunkedDc.RELIABLE_ORDERED_HEADER_LENGTH;
+        } else {
+            this.unchunker = new chunkedDc.UnreliableUnorderedUnchunker();
+            this.chunkHeaderLength = chunkedDc.UNRELIABLE_UNORDERED_HEADER_LENGTH;
+        }
         this.unchunker.onMessage = this.receiveMessage.bind(this);
 
         // Tie to transport link
@@ -145,12 +302,24 @@ export class SignalingTransport {
      * Called when the underlying data channel has been closed.
      */
     public closed(): void {
+        // If handover has been abandoned, the peer closes the data channel
+        // once it fell back to the WebSocket connection as well
+        if (this.abandoned) {
+            this.log.info(this.logTag, 'Closed (remote) after handover has been abandoned');
+            this.unbind();
+            this.task.onTransportClosed();
+            return;
+        }
+
         // If handover has already happened, set the signalling state to closed
         this.log.info('Closed (remote)');
+        this.task.onTransportError(new SignalingTransportError(
+            'remote-closed', 'Data channel has been closed by the remote side'));
         this.unbind();
         if (this.signaling.handoverState.any) {
             this.signaling.setState('closed');
         }
+        this.task.onTransportClosed();
     }
 
     /**
@@ -161,14 +330,66 @@ export class SignalingTransport {
      */
     public receiveChunk(chunk: Uint8Array): void {
         this.log.debug(this.logTag, 'Received chunk');
+        this.counters.chunksReceived++;
+        this.counters.bytesReceived += chunk.byteLength;
+
+        // Enforce the reassembly limit
+        this.reassemblyBytes += Math.max(0, chunk.byteLength - this.chunkHeaderLength);
+        if (this.reassemblyBytes > this.queueLimits.maxBytes) {
+            this.log.error(this.logTag, 'Reassembly limit exceeded');
+            return this.die(new SignalingTransportError(
+                'limit-exceeded',
+                `Chunks pending reassembly exceed ${this.queueLimits.maxBytes} bytes`));
+        }
+
+        // Enforce the message size limit
+        if (!this.updatePendingMessageBytes(chunk)) {
+            this.log.error(this.logTag, 'Message size limit exceeded');
+            return this.die(new SignalingTransportError(
+                'message-too-large',
+                `Message exceeds the maximum size of ${this.maxMessageSize} bytes`));
+        }
+
+        // Reassemble
         try {
             this.unchunker.add(chunk);
         } catch (error) {
             this.log.error(this.logTag, 'Invalid chunk:', error);
-            return this.die();
+            this.counters.chunkErrors++;
+            return this.die(new SignalingTransportError('chunk-error', 'Invalid chunk', error));
         }
     }
 
+    /**
+     * Account the payload of a chunk to the message it belongs to.
+     *
+     * Note: Malformed chunks are ignored here since they will be rejected by
+     *       the unchunker.
+     *
+     * @returns `false` in case the message exceeds the maximum message size.
+     */
+    private updatePendingMessageBytes(chunk: Uint8Array): boolean {
+        if (chunk.byteLength < this.chunkHeaderLength) {
+            return true;
+        }
+        const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+        const end = (view.getUint8(0) & 0x01) === 0x01;
+        const id = this.chunkingMode === 'reliable-ordered' ? 0 : view.getUint32(1);
+
+        // Update pending bytes of the message
+        const pending = (this.pendingMessageBytes.get(id) || 0)
+            + chunk.byteLength - this.chunkHeaderLength;
+        if (pending > this.maxMessageSize) {
+            return false;
+        }
+        if (end) {
+            this.pendingMessageBytes.delete(id);
+        } else {
+            this.pendingMessageBytes.set(id, pending);
+        }
+        return true;
+    }
+
     /**
      * Called when a message has been reassembled from chunks received on the
      * underlying data channel.
@@ -177,23 +398,43 @@ export class SignalingTransport {
      */
     private receiveMessage(message: Uint8Array): void {
         this.log.debug(this.logTag, 'Received message');
+        this.reassemblyBytes -= message.byteLength;
+
+        // Ensure the message does not exceed the maximum message size
+        if (message.byteLength > this.maxMessageSize) {
+            this.log.error(this.logTag, 'Message size limit exceeded');
+            return this.die(new SignalingTransportError(
+                'message-too-large',
+                `Message exceeds the maximum size of ${this.maxMessageSize} bytes`));
+        }
 
         // Decrypt message
-        const box = saltyrtcClient.Box.fromUint8Array(
-            message, DataChannelCryptoContext.NONCE_LENGTH);
         try {
-            message = this.crypto.decrypt(box)
+            message = this.crypto.decryptFrom(message);
         } catch (error) {
             this.log.error(this.logTag, 'Invalid nonce:', error);
-            return this.die();
+            this.counters.decryptFailures++;
+            return this.die(new SignalingTransportError(
+                'decrypt-error', 'Unable to decrypt message', error));
         }
+        this.counters.messagesReceived++;
 
         // Queue message until the transport has been acknowledged by the
         // remote peer with a handover request.
         //
         // Note: This mechanism is required to prevent reordering of messages.
-        if (!this.signaling.handoverState.peer) {
+        if (!this.abandoned && !this.signaling.handoverState.peer) {
+            if (this.messageQueue.length >= this.queueLimits.maxMessages
+                || this.queuedBytes + message.byteLength > this.queueLimits.maxBytes) {
+                this.log.error(this.logTag, 'Incoming message queue limit exceeded');
+                return this.die(new SignalingTransportError(
+                    'limit-exceeded',
+                    `Incoming message queue exceeds ${this.queueLimits.maxMessages} messages ` +
+                    `or ${this.queueLimits.maxBytes} bytes`));
+            }
             this.messageQueue.push(message);
+            this.queuedBytes += message.byteLength;
+            this.counters.queuedMessages++;
             return;
         }
 
@@ -216,41 +457,170 @@ export class SignalingTransport {
         }
 
         // Flush
-        for (const message of this.messageQueue) {
-            this.signaling.onSignalingPeerMessage(message);
-        }
+        this.processMessageQueue();
+    }
 
-        // Remove queue
+    /**
+     * Process and remove the queue of pending messages (if any) regardless
+     * of the handover state.
+     *
+     * This should be called once a handover request of the remote peer has
+     * been received but before the handover state is being updated, so a
+     * `handover-abort` message the peer sent on the underlying channel in
+     * the meantime is processed before handover completes.
+     */
+    public processMessageQueue(): void {
+        const queue = this.messageQueue;
         this.messageQueue = null;
+        this.queuedBytes = 0;
+        if (queue !== null) {
+            for (const message of queue) {
+                this.signaling.onSignalingPeerMessage(message);
+            }
+        }
+    }
+
+    /**
+     * Mark handover as abandoned.
+     *
+     * Messages the peer sent on the underlying channel before it fell back
+     * to the WebSocket connection (including queued ones) will be processed
+     * immediately from now on. The underlying channel remains open until
+     * the peer closes it or `close` is being called.
+     */
+    public abandon(): void {
+        this.log.debug(this.logTag, 'Handover abandoned');
+        this.abandoned = true;
+        this.processMessageQueue();
     }
 
     /**
      * Send a signalling message on the underlying channel.
      *
      * This will encrypt the message first and then fragment the message into
-     * chunks.
+     * chunks. If the handler exposes its buffered amount, sending chunks will
+     * be paused once the high water mark has been reached and resumed once
+     * the buffered amount dropped below the low water mark.
      *
      * @param message The signalling message to be sent.
      */
     public send(message: Uint8Array) {
         this.log.debug(this.logTag, 'Sending message');
 
+        // Ensure the send queue limit will not be exceeded
+        const maxLength = message.byteLength + DataChannelCryptoContext.OVERHEAD_LENGTH;
+        if (this.sendQueueBytes + maxLength > SignalingTransport.MAX_SEND_QUEUE_BYTES) {
+            this.log.error(this.logTag, 'Send queue limit exceeded');
+            return this.die(new SignalingTransportError(
+                'limit-exceeded',
+                `Send queue exceeds ${SignalingTransport.MAX_SEND_QUEUE_BYTES} bytes`));
+        }
+
         // Encrypt message
-        const box = this.crypto.encrypt(message);
-        message = box.toUint8Array();
-
-        // Split message into chunks (unreliable/unordered mode)
-        const chunker = new chunkedDc.UnreliableUnorderedChunker(
-            this.messageId++, message, this.chunkLength, this.chunkBuffer);
-        for (let chunk of chunker) {
-            // Send chunk
-            this.log.debug(this.logTag, 'Sending chunk');
-            try {
-                this.handler.send(chunk);
-            } catch (error) {
-                this.log.error(this.logTag, 'Unable to send chunk:', error);
-                return this.die();
+        // Note: Encryption happens immediately, so the order of the CSNs
+        //       matches the order in which messages are being sent.
+        const box = this.getEncryptionTarget(maxLength);
+        const length = this.crypto.encryptInto(message, box);
+        this.sendQueue.push(box.subarray(0, length));
+        this.sendQueueBytes += length;
+        this.counters.messagesSent++;
+
+        // Send chunks
+        this.flushSendQueue();
+    }
+
+    /**
+     * Return a buffer to encrypt an outgoing message into.
+     *
+     * The send buffer is being reused (and grown if necessary) unless it may
+     * still contain a message that has not been chunked completely, in which
+     * case a new buffer will be allocated.
+     *
+     * @param length The minimum length of the buffer.
+     */
+    private getEncryptionTarget(length: number): Uint8Array {
+        if (this.chunker !== null || this.sendQueue.length > 0) {
+            return new Uint8Array(length);
+        }
+        if (this.sendBuffer.byteLength < length) {
+            this.sendBuffer = new Uint8Array(length);
+        }
+        return this.sendBuffer;
+    }
+
+    /**
+     * Called when the buffered amount of the underlying data channel dropped
+     * to or below the low water mark.
+     */
+    public bufferedAmountLow(): void {
+        this.log.debug(this.logTag, 'Buffered amount low, resuming');
+        this.flushSendQueue();
+    }
+
+    /**
+     * Send queued chunks until either the queue is empty or the handler's
+     * buffered amount reached the high water mark.
+     */
+    private flushSendQueue(): void {
+        // Prevent reentrancy (e.g. in case the handler dispatches events
+        // synchronously)
+        if (this.flushing) {
+            return;
+        }
+        this.flushing = true;
+        try {
+            while (true) {
+                // Pause if the high water mark has been reached
+                const bufferedAmount = this.handler.bufferedAmount;
+                if (bufferedAmount !== undefined
+                    && bufferedAmount >= SignalingTransport.HIGH_WATER_MARK) {
+                    this.log.debug(this.logTag, 'High water mark reached, pausing');
+                    return;
+                }
+
+                // Get the next chunk
+                if (this.chunker === null) {
+                    if (this.sendQueue.length === 0) {
+                        return;
+                    }
+                    const message = this.sendQueue.shift();
+                    this.sendQueueBytes -= message.byteLength;
+                    this.chunker = this.createChunker(message);
+                }
+                const next = this.chunker.next();
+                if (next.done) {
+                    this.chunker = null;
+                    continue;
+                }
+
+                // Send chunk
+                this.log.debug(this.logTag, 'Sending chunk');
+                try {
+                    this.handler.send(next.value);
+                } catch (error) {
+                    this.log.error(this.logTag, 'Unable to send chunk:', error);
+                    return this.die(new SignalingTransportError(
+                        'send-error', 'Unable to send chunk', error));
+                }
+                this.counters.chunksSent++;
+                this.counters.bytesSent += next.value.byteLength;
             }
+        } finally {
+            this.flushing = false;
+        }
+    }
+
+    /**
+     * Create a chunker for an encrypted message depending on the chunking
+     * mode.
+     */
+    private createChunker(message: Uint8Array): chunkedDc.Chunker {
+        if (this.chunkingMode === 'reliable-ordered') {
+            return new chunkedDc.ReliableOrderedChunker(
+                message, this.chunkLength, this.chunkBuffer);
+        } else {
+            return new chunkedDc.UnreliableUnorderedChunker(
+                this.messageId++, message, this.chunkLength, this.chunkBuffer);
         }
     }
 
@@ -273,13 +643,25 @@ export class SignalingTransport {
     }
 
     /**
-     * Closes the task abruptly due to a protocol error.
+     * Notifies the task about the error and closes the task abruptly due to a
+     * protocol error. Like a remote close, this closes the signalling once
+     * handover has started.
+     *
+     * @param error The cause of the failure.
      */
-    private die() {
+    private die(error: SignalingTransportError) {
         this.log.warn(this.logTag, 'Closing task due to an error');
 
+        // Notify the task
+        this.task.onTransportError(error);
+
         // Close (implicitly closes the data channel as well)
         this.task.close(saltyrtcClient.CloseCode.ProtocolError);
+
+        // If handover has already happened, set the signalling state to closed
+        if (this.signaling.handoverState.any) {
+            this.signaling.setState('closed');
+        }
     }
 
     /**
@@ -291,5 +673,14 @@ export class SignalingTransport {
 
         // Unbind unchunker events
         this.unchunker.onMessage = undefined;
+
+        // Discard pending outgoing messages
+        const pending = this.sendQueue.length + (this.chunker !== null ? 1 : 0);
+        if (pending > 0) {
+            this.log.warn(this.logTag, `Discarding ${pending} pending outgoing message(s)`);
+        }
+        this.sendQueue.length = 0;
+        this.sendQueueBytes = 0;
+        this.chunker = null;
     }
 }
@@ -0,0 +1,327 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path='../saltyrtc-task-webrtc.d.ts' />
+
+import * as nacl from "tweetnacl";
+
+import {DataChannelCryptoContext} from "./crypto";
+
+/**
+ * A single operation sent to the crypto worker.
+ *
+ * Encryption uses the first key. Decryption tries all keys in order.
+ */
+interface CryptoOperation {
+    type: 'encrypt' | 'decrypt';
+    data: Uint8Array;
+    nonce: Uint8Array;
+    keys: Uint8Array[];
+}
+
+/**
+ * The result of an operation. `data` is `null` in case the data could not
+ * be decrypted.
+ */
+interface CryptoResult {
+    data: Uint8Array | null;
+    error?: string;
+}
+
+/**
+ * An operation waiting for its result.
+ */
+interface PendingOperation {
+    operation: CryptoOperation;
+    resolve: (data: Uint8Array | null) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Process crypto operations sent by a `CryptoWorker`. Call this from within
+ * a Web Worker with the worker's global scope or a `MessagePort`.
+ *
+ * Note: tweetnacl must be available in the worker.
+ *
+ * @param endpoint The endpoint to receive operations from.
+ */
+export function serveCryptoWorker(endpoint: saltyrtc.tasks.webrtc.WorkerEndpoint): void {
+    endpoint.onmessage = (event: MessageEvent) => {
+        const batch: {id: number, operations: CryptoOperation[]} = event.data;
+        const results: CryptoResult[] = [];
+        const transfer: ArrayBuffer[] = [];
+        for (const operation of batch.operations) {
+            let data: Uint8Array | null = null;
+            try {
+                if (operation.type === 'encrypt') {
+                    data = nacl.secretbox(operation.data, operation.nonce, operation.keys[0]);
+                } else {
+                    for (const key of operation.keys) {
+                        data = nacl.secretbox.open(operation.data, operation.nonce, key);
+                        if (data !== null) {
+                            break;
+                        }
+                    }
+                }
+            } catch (error) {
+                results.push({data: null, error: `${error}`});
+                continue;
+            }
+            results.push({data: data});
+            if (data !== null) {
+                transfer.push(data.buffer);
+            }
+        }
+        endpoint.postMessage({id: batch.id, results: results}, transfer);
+    };
+}
+
+/**
+ * Sends crypto operations to a Web Worker which processes them by the use
+ * of `serveCryptoWorker`.
+ *
+ * Operations are collected until the current task yields and then sent to
+ * the worker as a single batch. The data is copied and the copy transferred
+ * to the worker, so the caller's buffers remain usable. Results are
+ * delivered in the order in which the operations have been requested.
+ */
+export class CryptoWorker implements saltyrtc.tasks.webrtc.CryptoWorker {
+    public static MAX_BATCH_SIZE: number = 128;
+
+    private readonly endpoint: saltyrtc.tasks.webrtc.WorkerEndpoint;
+    private batch: PendingOperation[] = [];
+    private batchId: number = 0;
+    private readonly pending: Map<number, PendingOperation[]> = new Map();
+    private closed: boolean = false;
+
+    /**
+     * Create a new crypto worker.
+     *
+     * Note: This will replace the `onmessage` handler of the endpoint.
+     *
+     * @param endpoint A `Worker` or a `MessagePort` connected to a worker
+     *   serving crypto operations.
+     */
+    constructor(endpoint: saltyrtc.tasks.webrtc.WorkerEndpoint) {
+        this.endpoint = endpoint;
+        this.endpoint.onmessage = (event: MessageEvent) => this.receive(event.data);
+    }
+
+    /**
+     * Encrypt data with a key.
+     */
+    public encrypt(data: Uint8Array, nonce: Uint8Array, key: Uint8Array): Promise<Uint8Array> {
+        return this.enqueue({type: 'encrypt', data: data.slice(), nonce: nonce, keys: [key]});
+    }
+
+    /**
+     * Decrypt data with the first matching key. Resolves to `null` in case
+     * none of the keys could decrypt the data.
+     */
+    public decrypt(
+        data: Uint8Array, nonce: Uint8Array, keys: Uint8Array[],
+    ): Promise<Uint8Array | null> {
+        return this.enqueue({type: 'decrypt', data: data.slice(), nonce: nonce, keys: keys});
+    }
+
+    /**
+     * Stop using the worker. Pending operations will be rejected.
+     *
+     * Note: The worker itself will not be terminated.
+     */
+    public close(): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.endpoint.onmessage = null;
+
+        // Reject pending operations
+        const error = new Error('Crypto worker has been closed');
+        for (const pending of this.batch) {
+            pending.reject(error);
+        }
+        this.batch = [];
+        this.pending.forEach((batch) => {
+            for (const pending of batch) {
+                pending.reject(error);
+            }
+        });
+        this.pending.clear();
+    }
+
+    private enqueue(operation: CryptoOperation): Promise<Uint8Array | null> {
+        if (this.closed) {
+            return Promise.reject(new Error('Crypto worker has been closed'));
+        }
+        return new Promise((resolve, reject) => {
+            this.batch.push({operation, resolve, reject});
+            if (this.batch.length >= CryptoWorker.MAX_BATCH_SIZE) {
+                this.flush();
+            } else if (this.batch.length === 1) {
+                // Flush once the current task yielded
+                Promise.resolve().then(() => this.flush());
+            }
+        });
+    }
+
+    /**
+     * Send the current batch to the worker.
+     */
+    private flush(): void {
+        if (this.batch.length === 0) {
+            return;
+        }
+        const batch = this.batch;
+        const id = this.batchId++;
+        this.batch = [];
+        const operations = batch.map((pending) => pending.operation);
+        try {
+            this.endpoint.postMessage(
+                {id: id, operations: operations},
+                operations.map((operation) => operation.data.buffer));
+        } catch (error) {
+            for (const pending of batch) {
+                pending.reject(error);
+            }
+            return;
+        }
+        this.pending.set(id, batch);
+    }
+
+    /**
+     * Called when the worker returned the results of a batch.
+     */
+    private receive(message: {id: number, results: CryptoResult[]}): void {
+        const batch = this.pending.get(message.id);
+        if (batch === undefined) {
+            return;
+        }
+        this.pending.delete(message.id);
+        batch.forEach((pending, index) => {
+            const result = message.results[index];
+            if (result === undefined) {
+                pending.reject(new Error('Crypto worker did not return a result'));
+            } else if (result.error !== undefined) {
+                pending.reject(new Error(`Crypto worker failed: ${result.error}`));
+            } else {
+                pending.resolve(result.data);
+            }
+        });
+    }
+}
+
+/**
+ * Encrypts and decrypts data for a data channel with a specific id by the
+ * use of a crypto worker.
+ *
+ * Nonces, replay protection and key rotation are handled by the wrapped
+ * crypto context on the calling thread. Since the session key of the
+ * signalling cannot be exported, only messages encrypted with a derived key
+ * are processed by the worker. Once key rotation has been enabled on the
+ * wrapped crypto context, this applies to all messages. Otherwise, messages
+ * are encrypted with the session key and processed on the calling thread.
+ *
+ * Results are delivered in the order in which `encrypt` and `decrypt` have
+ * been called.
+ */
+export class WorkerCryptoContext implements saltyrtc.tasks.webrtc.AsyncDataChannelCryptoContext {
+    private readonly context: DataChannelCryptoContext;
+    private readonly worker: saltyrtc.tasks.webrtc.CryptoWorker;
+    private pending: Promise<any> = Promise.resolve();
+
+    /**
+     * Create a new worker crypto context.
+     *
+     * @param context The crypto context to be wrapped.
+     * @param worker The crypto worker.
+     */
+    constructor(context: DataChannelCryptoContext, worker: saltyrtc.tasks.webrtc.CryptoWorker) {
+        this.context = context;
+        this.worker = worker;
+    }
+
+    /**
+     * Encrypt data to be sent on the channel.
+     *
+     * Note: The nonce is created immediately, so the order of the combined
+     *       sequence numbers matches the order of the calls.
+     *
+     * @param data The bytes to be encrypted.
+     */
+    public encrypt(data: Uint8Array): Promise<saltyrtc.Box> {
+        let nonce: Uint8Array;
+        let work: Promise<Uint8Array>;
+        try {
+            const prepared = this.context.prepareEncryption();
+            nonce = prepared.nonce;
+            work = prepared.key === null
+                ? Promise.resolve(this.context.backend.encrypt(data, nonce, null))
+                : this.worker.encrypt(data, nonce, prepared.key);
+        } catch (error) {
+            work = Promise.reject(error);
+        }
+        return this.enqueue(work, (encrypted) => new saltyrtcClient.Box(
+            nonce, encrypted, DataChannelCryptoContext.NONCE_LENGTH));
+    }
+
+    /**
+     * Decrypt data received on the channel.
+     *
+     * @param box The encrypted box.
+     */
+    public decrypt(box: saltyrtc.Box): Promise<Uint8Array> {
+        let keys: Array<Uint8Array | null>;
+        let csn: number;
+        let work: Promise<Uint8Array | null>;
+        try {
+            const prepared = this.context.prepareDecryption(box);
+            keys = prepared.keys;
+            csn = prepared.csn;
+            const derivedKeys = keys.filter((key) => key !== null);
+            work = derivedKeys.length > 0
+                ? this.worker.decrypt(box.data, box.nonce, derivedKeys)
+                : Promise.resolve(null);
+        } catch (error) {
+            work = Promise.reject(error);
+        }
+        return this.enqueue(work, (data) => {
+            // Fall back to the session key
+            // Note: Decryption with the session key is attempted last since
+            //       the signalling resets the connection if it fails.
+            if (data === null && keys.indexOf(null) !== -1) {
+                data = this.context.backend.decrypt(box.data, box.nonce, null);
+            }
+            if (data === null) {
+                throw new saltyrtcClient.exceptions.ValidationError('Unable to decrypt data');
+            }
+            this.context.completeDecryption(csn);
+            return data;
+        });
+    }
+
+    /**
+     * Rotate the outgoing key.
+     *
+     * @throws Error in case key rotation has not been negotiated.
+     */
+    public rotateKey(): void {
+        this.context.rotateKey();
+    }
+
+    /**
+     * Complete an operation once all previously requested operations have
+     * been completed.
+     */
+    private enqueue<T, R>(work: Promise<T>, complete: (result: T) => R): Promise<R> {
+        // Note: Avoids reporting the rejection as unhandled until it's our turn
+        work.catch(() => undefined);
+        const result = this.pending.then(() => work).then(complete);
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+}
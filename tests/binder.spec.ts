@@ -0,0 +1,216 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path="jasmine.d.ts" />
+
+import {PeerConnectionBinder} from "../src/binder";
+
+/**
+ * Fakes the task and keeps track of sent offers, answers and candidates.
+ */
+class FakeTask {
+    private eventRegistry: saltyrtc.EventRegistry = new saltyrtcClient.EventRegistry();
+    public offers: Array<RTCSessionDescriptionInit> = [];
+    public answers: Array<RTCSessionDescriptionInit> = [];
+    public candidates: Array<saltyrtc.tasks.webrtc.Candidate | null> = [];
+    public perfectNegotiation = false;
+    public polite = false;
+
+    public on(event: string, handler: saltyrtc.SaltyRTCEventHandler): void {
+        this.eventRegistry.register(event, handler);
+    }
+
+    public off(event: string, handler: saltyrtc.SaltyRTCEventHandler): void {
+        this.eventRegistry.unregister(event, handler);
+    }
+
+    public emit(event: saltyrtc.SaltyRTCEvent): void {
+        for (const handler of this.eventRegistry.get(event.type)) {
+            handler.call(this, event);
+        }
+    }
+
+    public sendOffer(offer: RTCSessionDescriptionInit): void {
+        this.offers.push(offer);
+    }
+
+    public sendAnswer(answer: RTCSessionDescriptionInit): void {
+        this.answers.push(answer);
+    }
+
+    public sendCandidate(candidate: saltyrtc.tasks.webrtc.Candidate | null): void {
+        this.candidates.push(candidate);
+    }
+}
+
+/**
+ * Fakes a peer connection and keeps track of the applied descriptions and
+ * candidates.
+ */
+class FakePeerConnection implements saltyrtc.tasks.webrtc.PeerConnectionLike {
+    public signalingState: RTCSignalingState = 'stable';
+    public localDescription: RTCSessionDescriptionInit | null = null;
+    public remoteDescription: RTCSessionDescriptionInit | null = null;
+    public onicecandidate: ((event: RTCPeerConnectionIceEvent) => any) | null = null;
+    public candidates: Array<saltyrtc.tasks.webrtc.Candidate> = [];
+    public failSetRemoteDescription = false;
+
+    public createOffer(): Promise<RTCSessionDescriptionInit> {
+        return Promise.resolve({type: 'offer', sdp: 'fake-offer'} as RTCSessionDescriptionInit);
+    }
+
+    public createAnswer(): Promise<RTCSessionDescriptionInit> {
+        return Promise.resolve({type: 'answer', sdp: 'fake-answer'} as RTCSessionDescriptionInit);
+    }
+
+    public setLocalDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        this.signalingState = description.type === 'offer' ? 'have-local-offer' : 'stable';
+        this.localDescription = description;
+        return Promise.resolve();
+    }
+
+    public setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        if (this.failSetRemoteDescription) {
+            return Promise.reject(new Error('nope'));
+        }
+        if (description.type === 'offer' && this.signalingState !== 'stable') {
+            return Promise.reject(new Error('Offer collision'));
+        }
+        this.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+        this.remoteDescription = description;
+        return Promise.resolve();
+    }
+
+    public addIceCandidate(candidate: saltyrtc.tasks.webrtc.Candidate): Promise<void> {
+        if (this.remoteDescription === null) {
+            return Promise.reject(new Error('No remote description'));
+        }
+        this.candidates.push(candidate);
+        return Promise.resolve();
+    }
+}
+
+export default () => {
+    describe('binder', function() {
+        describe('PeerConnectionBinder', function() {
+            let task: FakeTask;
+            let pc: FakePeerConnection;
+            let binder: PeerConnectionBinder;
+
+            const offer = {type: 'offer', sdp: 'remote-offer'} as RTCSessionDescriptionInit;
+            const answer = {type: 'answer', sdp: 'remote-answer'} as RTCSessionDescriptionInit;
+            const candidate = {candidate: 'fake-candidate', sdpMid: 'data', sdpMLineIndex: 0};
+
+            beforeEach(() => {
+                task = new FakeTask();
+                pc = new FakePeerConnection();
+                binder = new PeerConnectionBinder(
+                    task as any as saltyrtc.tasks.webrtc.WebRTCTask, pc, 'debug');
+            });
+
+            it('sends local candidates', () => {
+                pc.onicecandidate({candidate: candidate} as RTCPeerConnectionIceEvent);
+                pc.onicecandidate({candidate: null} as RTCPeerConnectionIceEvent);
+                expect(task.candidates).toEqual([candidate, null]);
+            });
+
+            it('rejects if a local candidate cannot be sent', async () => {
+                spyOn(task, 'sendCandidate').and.throwError('nope');
+                const negotiated = binder.whenNegotiated();
+                expect(() => pc.onicecandidate({candidate: candidate} as RTCPeerConnectionIceEvent))
+                    .not.toThrow();
+                let error: Error | null = null;
+                await negotiated.catch((e) => error = e);
+                expect(error.message).toBe('nope');
+            });
+
+            it('sends an offer and applies the answer', async () => {
+                const negotiated = binder.offer();
+                task.emit({type: 'answer', data: answer});
+                await negotiated;
+                expect(task.offers.length).toBe(1);
+                expect(pc.localDescription).toBe(task.offers[0]);
+                expect(pc.remoteDescription).toBe(answer);
+            });
+
+            it('answers a remote offer', async () => {
+                const negotiated = binder.whenNegotiated();
+                task.emit({type: 'offer', data: offer});
+                await negotiated;
+                expect(pc.remoteDescription).toBe(offer);
+                expect(pc.localDescription.type).toBe('answer');
+                expect(task.answers).toEqual([pc.localDescription]);
+            });
+
+            it('buffers candidates until the remote description is set', async () => {
+                const negotiated = binder.whenNegotiated();
+                task.emit({type: 'candidates', data: [candidate]});
+                task.emit({type: 'offer', data: offer});
+                await negotiated;
+                expect(pc.candidates).toEqual([candidate]);
+            });
+
+            it('rolls back the local offer if it cannot be sent', async () => {
+                spyOn(task, 'sendOffer').and.throwError('Outgoing offer rejected: nope');
+                let error: Error | null = null;
+                await binder.offer().catch((e) => error = e);
+                expect(error.message).toBe('Outgoing offer rejected: nope');
+                expect(pc.signalingState).toBe('stable');
+
+                // A later remote offer does not collide
+                task.perfectNegotiation = true;
+                const negotiated = binder.whenNegotiated();
+                task.emit({type: 'offer', data: offer});
+                await negotiated;
+                expect(pc.remoteDescription).toBe(offer);
+                expect(task.answers.length).toBe(1);
+            });
+
+            it('rejects if negotiation fails', async () => {
+                pc.failSetRemoteDescription = true;
+                const negotiated = binder.whenNegotiated();
+                task.emit({type: 'offer', data: offer});
+                let error: Error | null = null;
+                await negotiated.catch((e) => error = e);
+                expect(error.message).toBe('nope');
+            });
+
+            describe('perfect negotiation', function() {
+                beforeEach(() => {
+                    task.perfectNegotiation = true;
+                });
+
+                it('rolls back a local offer if polite', async () => {
+                    task.polite = true;
+                    binder.offer();
+                    task.emit({type: 'offer', data: offer});
+                    await binder.whenNegotiated();
+                    expect(pc.remoteDescription).toBe(offer);
+                    expect(pc.localDescription.type).toBe('answer');
+                    expect(task.answers.length).toBe(1);
+                });
+
+                it('ignores a colliding offer if impolite', async () => {
+                    const negotiated = binder.offer();
+                    task.emit({type: 'offer', data: offer});
+                    task.emit({type: 'answer', data: answer});
+                    await negotiated;
+                    expect(pc.remoteDescription).toBe(answer);
+                    expect(task.answers.length).toBe(0);
+                });
+            });
+
+            it('unbinds', async () => {
+                binder.unbind();
+                expect(pc.onicecandidate).toBeNull();
+                task.emit({type: 'offer', data: offer});
+                await Promise.resolve();
+                expect(pc.remoteDescription).toBeNull();
+            });
+        });
+    });
+}
@@ -0,0 +1,110 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path="jasmine.d.ts" />
+
+import {CandidateFilters, CandidateTransforms} from "../src/candidates";
+
+const candidate = (line: string): RTCIceCandidateInit => {
+    return {candidate: line, sdpMid: '0', sdpMLineIndex: 0};
+};
+
+const HOST_PRIVATE = candidate(
+    'candidate:1 1 udp 2122260223 192.168.1.10 54321 typ host generation 0');
+const HOST_PRIVATE_IPV6 = candidate(
+    'candidate:2 1 udp 2122262783 fd12:3456:789a::1 54322 typ host generation 0');
+const HOST_PUBLIC = candidate(
+    'candidate:3 1 udp 2122260223 203.0.113.7 54323 typ host generation 0');
+const HOST_MDNS = candidate(
+    'candidate:4 1 udp 2122260223 1f4712db-ea17-4bcf-a596-105139dfd8bf.local 54324 typ host');
+const HOST_TCP = candidate(
+    'candidate:5 1 tcp 1518280447 203.0.113.7 9 typ host tcptype active generation 0');
+const SRFLX = candidate(
+    'a=candidate:6 1 udp 1686052607 203.0.113.7 54325 typ srflx raddr 192.168.1.10 rport 54321');
+const RELAY = candidate(
+    'candidate:7 1 udp 41885439 198.51.100.1 3478 typ relay raddr 203.0.113.7 rport 54325');
+const END_OF_CANDIDATES = candidate('');
+const MALFORMED = candidate('candidate:8 1 udp');
+const host = (address: string) => candidate(
+    `candidate:9 1 udp 2122260223 ${address} 54326 typ host generation 0`);
+
+export default () => {
+    describe('candidates', function() {
+        describe('CandidateFilters', function() {
+            const ALL = [
+                HOST_PRIVATE, HOST_PRIVATE_IPV6, HOST_PUBLIC, HOST_MDNS, HOST_TCP, SRFLX, RELAY,
+            ];
+
+            it('relayOnly keeps relayed candidates only', () => {
+                expect(ALL.filter(CandidateFilters.relayOnly)).toEqual([RELAY]);
+            });
+
+            it('noPrivateHost drops host candidates with a private address', () => {
+                expect(ALL.filter(CandidateFilters.noPrivateHost)).toEqual(
+                    [HOST_PUBLIC, HOST_MDNS, HOST_TCP, SRFLX, RELAY]);
+            });
+
+            it('noPrivateHost drops host candidates with a CGNAT address', () => {
+                expect(CandidateFilters.noPrivateHost(host('100.64.0.1'))).toBe(false);
+                expect(CandidateFilters.noPrivateHost(host('100.127.255.254'))).toBe(false);
+                expect(CandidateFilters.noPrivateHost(host('100.63.255.255'))).toBe(true);
+                expect(CandidateFilters.noPrivateHost(host('100.128.0.1'))).toBe(true);
+            });
+
+            it('noPrivateHost drops host candidates with an IPv4-mapped private address', () => {
+                expect(CandidateFilters.noPrivateHost(host('::ffff:10.0.0.1'))).toBe(false);
+                expect(CandidateFilters.noPrivateHost(host('::FFFF:192.168.1.10'))).toBe(false);
+                expect(CandidateFilters.noPrivateHost(host('::ffff:100.64.0.1'))).toBe(false);
+                expect(CandidateFilters.noPrivateHost(host('0:0:0:0:0:ffff:127.0.0.1')))
+                    .toBe(false);
+                expect(CandidateFilters.noPrivateHost(host('::ffff:c0a8:10a'))).toBe(false);
+                expect(CandidateFilters.noPrivateHost(host('::ffff:203.0.113.7'))).toBe(true);
+                expect(CandidateFilters.noPrivateHost(host('::ffff:cb00:7107'))).toBe(true);
+            });
+
+            it('noMdns drops mDNS candidates', () => {
+                expect(ALL.filter(CandidateFilters.noMdns)).toEqual(
+                    [HOST_PRIVATE, HOST_PRIVATE_IPV6, HOST_PUBLIC, HOST_TCP, SRFLX, RELAY]);
+            });
+
+            it('noTcp drops TCP candidates', () => {
+                expect(ALL.filter(CandidateFilters.noTcp)).toEqual(
+                    [HOST_PRIVATE, HOST_PRIVATE_IPV6, HOST_PUBLIC, HOST_MDNS, SRFLX, RELAY]);
+            });
+
+            it('combines filters', () => {
+                const filter = CandidateFilters.all(
+                    CandidateFilters.noPrivateHost, CandidateFilters.noMdns,
+                    CandidateFilters.noTcp);
+                expect(ALL.filter(filter)).toEqual([HOST_PUBLIC, SRFLX, RELAY]);
+            });
+
+            it('keeps the end of candidates', () => {
+                expect(CandidateFilters.relayOnly(END_OF_CANDIDATES)).toBe(true);
+            });
+
+            it('drops malformed candidates', () => {
+                expect(CandidateFilters.noTcp(MALFORMED)).toBe(false);
+            });
+        });
+
+        describe('CandidateTransforms', function() {
+            it('redactRelatedAddress removes the related address', () => {
+                expect(CandidateTransforms.redactRelatedAddress(SRFLX)).toEqual(candidate(
+                    'a=candidate:6 1 udp 1686052607 203.0.113.7 54325 typ srflx ' +
+                    'raddr 0.0.0.0 rport 0'));
+                expect(SRFLX.candidate).toContain('raddr 192.168.1.10 rport 54321');
+            });
+
+            it('redactRelatedAddress keeps candidates without a related address', () => {
+                expect(CandidateTransforms.redactRelatedAddress(HOST_PRIVATE)).toBe(HOST_PRIVATE);
+                expect(CandidateTransforms.redactRelatedAddress(END_OF_CANDIDATES))
+                    .toBe(END_OF_CANDIDATES);
+            });
+        });
+    });
+}
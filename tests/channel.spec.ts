@@ -0,0 +1,230 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path="jasmine.d.ts" />
+
+import {SecureDataChannel} from "../src/channel";
+import {DataChannelCryptoContext} from "../src/crypto";
+import {DataChannelNonce} from "../src/nonce";
+
+class FakeSignaling {
+    // noinspection JSMethodCanBeStatic
+    public encryptForPeer(data: Uint8Array, nonce: Uint8Array): saltyrtc.Box {
+        // Don't actually encrypt
+        return new saltyrtcClient.Box(nonce, data, DataChannelNonce.TOTAL_LENGTH);
+    };
+
+    // noinspection JSMethodCanBeStatic
+    public decryptFromPeer(box: saltyrtc.Box): Uint8Array {
+        // Don't actually decrypt
+        return box.data;
+    }
+}
+
+/**
+ * Fakes a data channel and forwards all messages to the remote fake data
+ * channel (if any).
+ */
+class FakeDataChannel implements saltyrtc.tasks.webrtc.DataChannelLike {
+    public readonly id: number;
+    public readonly label = 'fake';
+    public readonly ordered = true;
+    public binaryType: BinaryType = 'blob';
+    public onmessage: ((event: MessageEvent) => any) | null = null;
+    public onclose: ((event: Event) => any) | null = null;
+    public onerror: ((event: Event) => any) | null = null;
+    public remote: FakeDataChannel | null = null;
+    public chunks: Array<Uint8Array> = [];
+    public closed = false;
+
+    constructor(id: number) {
+        this.id = id;
+    }
+
+    public send(data: Uint8Array): void {
+        const chunk = data.slice();
+        this.chunks.push(chunk);
+        if (this.remote !== null) {
+            this.remote.onmessage({data: chunk.buffer} as MessageEvent);
+        }
+    }
+
+    public close(): void {
+        this.closed = true;
+        if (this.onclose !== null) {
+            this.onclose({} as Event);
+        }
+    }
+}
+
+export default () => {
+    describe('channel', function() {
+        describe('SecureDataChannel', function() {
+            const ID = 1337;
+
+            let localDc: FakeDataChannel;
+            let remoteDc: FakeDataChannel;
+            let local: SecureDataChannel;
+            let remote: SecureDataChannel;
+
+            const createContext = (): DataChannelCryptoContext => {
+                const fakeSignaling = new FakeSignaling() as any as saltyrtc.Signaling;
+                return new DataChannelCryptoContext(ID, fakeSignaling);
+            };
+
+            beforeEach(() => {
+                localDc = new FakeDataChannel(ID);
+                remoteDc = new FakeDataChannel(ID);
+                localDc.remote = remoteDc;
+                remoteDc.remote = localDc;
+                local = new SecureDataChannel(localDc, createContext(), 'debug', 20);
+                remote = new SecureDataChannel(remoteDc, createContext(), 'debug', 20);
+            });
+
+            it('binds to the data channel', () => {
+                expect(localDc.binaryType).toBe('arraybuffer');
+                expect(localDc.onmessage).not.toBeNull();
+                expect(localDc.onclose).not.toBeNull();
+                expect(localDc.onerror).not.toBeNull();
+                expect(local.id).toBe(ID);
+                expect(local.label).toBe('fake');
+            });
+
+            it('sends and receives binary messages in chunks', () => {
+                const messages = [];
+                remote.on('message', (event) => { messages.push(event.data); });
+
+                const data = Uint8Array.of(1, 2, 3, 4, 5, 6, 7, 8, 9, 10);
+                local.send(data);
+
+                // Nonce (24 bytes) + payload type (1 byte) + data (10 bytes)
+                expect(localDc.chunks.length).toBe(Math.ceil(35 / 11));
+                expect(messages.length).toBe(1);
+                expect(messages[0]).toEqual(data);
+            });
+
+            it('sends and receives string messages', () => {
+                const messages = [];
+                remote.on('message', (event) => { messages.push(event.data); });
+
+                local.send('hello äöü');
+                expect(messages).toEqual(['hello äöü']);
+            });
+
+            it('preserves the order of messages', () => {
+                const messages = [];
+                remote.on('message', (event) => { messages.push(event.data); });
+
+                for (let i = 0; i < 5; ++i) {
+                    local.send(`message ${i}`);
+                }
+                expect(messages).toEqual(
+                    ['message 0', 'message 1', 'message 2', 'message 3', 'message 4']);
+            });
+
+            it('forwards closing', () => {
+                let closed = false;
+                remote.on('close', () => closed = true);
+                remoteDc.close();
+                expect(closed).toBeTruthy();
+                expect(remoteDc.onmessage).toBeNull();
+            });
+
+            it('closes on invalid message', () => {
+                const errors = [];
+                remote.on('error', (event) => { errors.push(event.data); });
+
+                // Replay the encrypted chunks
+                local.send('hello');
+                for (const chunk of localDc.chunks) {
+                    remoteDc.onmessage({data: chunk.slice().buffer} as MessageEvent);
+                }
+
+                expect(errors.length).toBe(1);
+                expect(remoteDc.closed).toBeTruthy();
+            });
+
+            it('closes on non-binary message', () => {
+                const errors = [];
+                remote.on('error', (event) => { errors.push(event.data); });
+
+                remoteDc.onmessage({data: 'nope'} as MessageEvent);
+
+                expect(errors.length).toBe(1);
+                expect(errors[0].message).toBe('Received non-binary message');
+                expect(remoteDc.closed).toBeTruthy();
+            });
+
+            it('rejects oversized messages', () => {
+                remote = new SecureDataChannel(
+                    remoteDc, createContext(), 'debug', 20, {maxMessages: 2, maxBytes: 1024}, 30);
+                const messages = [];
+                const errors = [];
+                remote.on('message', (event) => { messages.push(event.data); });
+                remote.on('error', (event) => { errors.push(event.data); });
+
+                // Nonce (24 bytes) + payload type (1 byte) + data (10 bytes)
+                localDc.remote = null;
+                local.send(Uint8Array.of(1, 2, 3, 4, 5, 6, 7, 8, 9, 10));
+                for (const chunk of localDc.chunks) {
+                    if (remoteDc.onmessage !== null) {
+                        remoteDc.onmessage({data: chunk.buffer} as MessageEvent);
+                    }
+                }
+
+                expect(messages).toEqual([]);
+                expect(errors.length).toBe(1);
+                expect(errors[0].message).toBe('Message exceeds the maximum size of 30 bytes');
+                expect(remoteDc.closed).toBeTruthy();
+            });
+
+            it('limits the amount of incomplete messages', () => {
+                remote = new SecureDataChannel(
+                    remoteDc, createContext(), 'debug', 20, {maxMessages: 2, maxBytes: 1024}, 30);
+                const errors = [];
+                remote.on('error', (event) => { errors.push(event.data); });
+
+                // First chunks of three different messages (without the end flag)
+                for (let id = 0; id < 3; ++id) {
+                    const chunk = Uint8Array.of(0, 0, 0, 0, id, 0, 0, 0, 0, 1, 2, 3);
+                    remoteDc.onmessage({data: chunk.buffer} as MessageEvent);
+                }
+
+                expect(errors.length).toBe(1);
+                expect(errors[0].message).toBe('Incomplete messages exceed 2 messages');
+                expect(remoteDc.closed).toBeTruthy();
+            });
+
+            it('supports crypto contexts with an asynchronous API', async () => {
+                type AsyncContext = saltyrtc.tasks.webrtc.AsyncDataChannelCryptoContext;
+                const createAsyncContext = (): AsyncContext => {
+                    const context = createContext();
+                    return {
+                        encrypt: (data) => Promise.resolve(context.encrypt(data)),
+                        decrypt: (box) => Promise.resolve(context.decrypt(box)),
+                        rotateKey: () => context.rotateKey(),
+                    };
+                };
+                localDc = new FakeDataChannel(ID);
+                remoteDc = new FakeDataChannel(ID);
+                localDc.remote = remoteDc;
+                remoteDc.remote = localDc;
+                local = new SecureDataChannel(localDc, createAsyncContext(), 'debug', 20);
+                remote = new SecureDataChannel(remoteDc, createAsyncContext(), 'debug', 20);
+                const messages = [];
+                remote.on('message', (event) => { messages.push(event.data); });
+
+                for (let i = 0; i < 3; ++i) {
+                    local.send(`message ${i}`);
+                }
+                expect(localDc.chunks).toEqual([]);
+                await new Promise((resolve) => setTimeout(resolve, 0));
+                expect(messages).toEqual(['message 0', 'message 1', 'message 2']);
+            });
+        });
+    });
+}
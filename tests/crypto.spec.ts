@@ -7,7 +7,11 @@
 
 /// <reference path="jasmine.d.ts" />
 
-import {DataChannelCryptoContext} from "../src/crypto";
+import * as nacl from "tweetnacl";
+
+import {
+    CsnExhaustedError, DataChannelCryptoContext, KeyRotationPolicy, SignalingCryptoBackend,
+} from "../src/crypto";
 import {DataChannelNonce} from "../src/nonce";
 
 const OVERHEAD_LENGTH = 40;
@@ -25,6 +29,59 @@ class FakeSignaling {
     }
 }
 
+/**
+ * Encrypts and decrypts by the use of a fixed session key.
+ */
+class SessionKeySignaling {
+    private readonly key = new Uint8Array(32).fill(1);
+
+    public encryptForPeer(data: Uint8Array, nonce: Uint8Array): saltyrtc.Box {
+        return new saltyrtcClient.Box(
+            nonce, nacl.secretbox(data, nonce, this.key), DataChannelNonce.TOTAL_LENGTH);
+    };
+
+    public decryptFromPeer(box: saltyrtc.Box): Uint8Array {
+        const data = nacl.secretbox.open(box.data, box.nonce, this.key);
+        if (data === null) {
+            throw new Error('Decryption with the session key failed');
+        }
+        return data;
+    }
+}
+
+class FakeBackend implements saltyrtc.tasks.webrtc.DataChannelCryptoBackend {
+    public readonly keys: Array<Uint8Array | null> = [];
+    public fail = false;
+
+    public encrypt(data: Uint8Array, nonce: Uint8Array, key: Uint8Array | null): Uint8Array {
+        // Deterministic, reversible transformation
+        this.keys.push(key);
+        return data.slice().reverse();
+    }
+
+    public decrypt(data: Uint8Array, nonce: Uint8Array, key: Uint8Array | null): Uint8Array | null {
+        this.keys.push(key);
+        return this.fail ? null : data.slice().reverse();
+    }
+}
+
+/**
+ * Writes the encrypted data into the target buffer directly.
+ */
+class InPlaceBackend extends FakeBackend {
+    public readonly targets: Array<Uint8Array> = [];
+
+    public encryptInto(
+        data: Uint8Array, nonce: Uint8Array, key: Uint8Array | null, target: Uint8Array,
+    ): number {
+        this.targets.push(target);
+        for (let i = 0; i < data.byteLength; ++i) {
+            target[nonce.byteLength + i] = data[data.byteLength - 1 - i];
+        }
+        return data.byteLength;
+    }
+}
+
 export default () => {
     describe('crypto', function() {
         describe('DataChannelCryptoContext', function() {
@@ -162,6 +219,475 @@ export default () => {
                     const box = { nonce: NONCE.toUint8Array(), data: data } as saltyrtc.Box;
                     expect(context.decrypt(box)).toEqual(data);
                 });
+
+                it('does not update the combined sequence number if decryption fails', () => {
+                    const box = {
+                        nonce: NONCE.toUint8Array(), data: new Uint8Array(0)
+                    } as saltyrtc.Box;
+                    const fakeSignaling = {
+                        decryptFromPeer: () => { throw new Error('nope'); },
+                    } as any as saltyrtc.Signaling;
+                    context = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling);
+
+                    expect(() => context.decrypt(box)).toThrowError('nope');
+                    expect((context as any).lastIncomingCsn).toBe(null);
+                });
+            });
+
+            describe('replay protection', function() {
+                const COOKIE = {
+                    bytes: Uint8Array.of(1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16)
+                } as saltyrtc.Cookie;
+
+                const createBox = (overflow: number, sequenceNumber: number): saltyrtc.Box => {
+                    const nonce = new DataChannelNonce(COOKIE, CHANNEL_ID, overflow, sequenceNumber);
+                    return { nonce: nonce.toUint8Array(), data: new Uint8Array(0) } as saltyrtc.Box;
+                };
+
+                const createContext = (
+                    options: saltyrtc.tasks.webrtc.DataChannelCryptoContextOptions,
+                ): DataChannelCryptoContext => {
+                    // @ts-ignore
+                    const fakeSignaling = new FakeSignaling() as saltyrtc.Signaling;
+                    return new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling, options);
+                };
+
+                it('accepts lower combined sequence numbers in consecutive mode', () => {
+                    const context = createContext({replayProtection: 'consecutive'});
+                    context.decrypt(createBox(0, 11));
+                    context.decrypt(createBox(0, 10));
+                    context.decrypt(createBox(0, 11));
+                });
+
+                it('rejects unknown mode', () => {
+                    const create = () => createContext({replayProtection: 'nope' as any});
+                    expect(create).toThrowError('Unknown replay protection mode: nope');
+                });
+
+                describe('strict', function() {
+                    let context: DataChannelCryptoContext;
+
+                    beforeEach(() => {
+                        context = createContext({replayProtection: 'strict'});
+                    });
+
+                    it('accepts increasing combined sequence numbers', () => {
+                        context.decrypt(createBox(0, 11));
+                        context.decrypt(createBox(0, 12));
+                        context.decrypt(createBox(0, 20));
+                        context.decrypt(createBox(1, 0));
+                    });
+
+                    it('rejects repeated combined sequence number', () => {
+                        context.decrypt(createBox(0, 11));
+                        const decrypt = () => context.decrypt(createBox(0, 11));
+                        expect(decrypt).toThrowError('CSN reuse detected');
+                    });
+
+                    it('rejects lower combined sequence number', () => {
+                        context.decrypt(createBox(0, 11));
+                        context.decrypt(createBox(0, 12));
+                        const decrypt = () => context.decrypt(createBox(0, 10));
+                        expect(decrypt).toThrowError('CSN is lower than the previous CSN');
+                    });
+                });
+
+                describe('window', function() {
+                    let context: DataChannelCryptoContext;
+
+                    beforeEach(() => {
+                        context = createContext({replayProtection: 'window', replayWindowSize: 64});
+                    });
+
+                    it('rejects invalid window size', () => {
+                        const create = () => createContext(
+                            {replayProtection: 'window', replayWindowSize: 0});
+                        expect(create).toThrowError(
+                            'Replay window size must be a positive integer');
+                    });
+
+                    it('accepts reordered combined sequence numbers', () => {
+                        context.decrypt(createBox(0, 11));
+                        context.decrypt(createBox(0, 14));
+                        context.decrypt(createBox(0, 12));
+                        context.decrypt(createBox(0, 13));
+                        context.decrypt(createBox(0, 10));
+                    });
+
+                    it('rejects any repeated combined sequence number', () => {
+                        for (const sequenceNumber of [11, 14, 12]) {
+                            context.decrypt(createBox(0, sequenceNumber));
+                        }
+                        for (const sequenceNumber of [11, 14, 12]) {
+                            const decrypt = () => context.decrypt(createBox(0, sequenceNumber));
+                            expect(decrypt).toThrowError('CSN reuse detected');
+                        }
+                    });
+
+                    it('rejects combined sequence numbers behind the window', () => {
+                        context.decrypt(createBox(0, 100));
+                        context.decrypt(createBox(0, 37));
+                        const decrypt = () => context.decrypt(createBox(0, 36));
+                        expect(decrypt).toThrowError('CSN outside of replay window');
+                    });
+
+                    it('slides the window', () => {
+                        context.decrypt(createBox(0, 10));
+                        context.decrypt(createBox(0, 74));
+                        context.decrypt(createBox(0, 138));
+
+                        // Slots of the window have been cleared
+                        context.decrypt(createBox(0, 100));
+                        context.decrypt(createBox(0, 75));
+                        const decrypt = () => context.decrypt(createBox(0, 74));
+                        expect(decrypt).toThrowError('CSN outside of replay window');
+                    });
+
+                    it('handles combined sequence numbers with overflow', () => {
+                        context.decrypt(createBox(0, 0xFFFFFFFF));
+                        context.decrypt(createBox(1, 1));
+                        context.decrypt(createBox(1, 0));
+                        const decrypt = () => context.decrypt(createBox(0, 0xFFFFFFFF));
+                        expect(decrypt).toThrowError('CSN reuse detected');
+                    });
+                });
+            });
+
+            describe('key rotation', function() {
+                const MESSAGE = Uint8Array.of(1, 2, 3, 4);
+                let sender: DataChannelCryptoContext;
+                let receiver: DataChannelCryptoContext;
+                let toSender: Array<saltyrtc.messages.TaskMessage>;
+                let toReceiver: Array<saltyrtc.messages.TaskMessage>;
+
+                let signaling: saltyrtc.Signaling;
+
+                const createContexts = (policy: KeyRotationPolicy) => {
+                    signaling = new SessionKeySignaling() as any as saltyrtc.Signaling;
+                    sender = new DataChannelCryptoContext(CHANNEL_ID, signaling);
+                    receiver = new DataChannelCryptoContext(CHANNEL_ID, signaling);
+                    toSender = [];
+                    toReceiver = [];
+                    sender.enableKeyRotation(policy, (message) => { toReceiver.push(message); });
+                    receiver.enableKeyRotation(
+                        {maxMessages: 0, maxAgeMs: 0}, (message) => { toSender.push(message); });
+                };
+
+                // Encrypt a message by the sender and decrypt it by the receiver
+                const transfer = (): saltyrtc.Box => {
+                    const box = sender.encrypt(MESSAGE);
+                    expect(receiver.decrypt(box)).toEqual(MESSAGE);
+                    return box;
+                };
+
+                it('derives the initial key from the session key', () => {
+                    createContexts({maxMessages: 0, maxAgeMs: 0});
+                    const box = transfer();
+                    expect(box.data.byteLength).toBe(MESSAGE.byteLength + 16);
+
+                    // Not encrypted with the session key
+                    const context = new DataChannelCryptoContext(CHANNEL_ID, signaling);
+                    expect(() => context.decrypt(box))
+                        .toThrowError('Decryption with the session key failed');
+                });
+
+                it('rotates keys without dropping messages', () => {
+                    createContexts({maxMessages: 2, maxAgeMs: 0});
+                    const initial = sender['outgoingKey'];
+
+                    // Initial key
+                    transfer();
+                    transfer();
+                    expect(toReceiver).toEqual([]);
+
+                    // Rotation is being initiated but the initial key is still in use
+                    transfer();
+                    expect(sender['outgoingKey']).toBe(initial);
+                    expect(toReceiver.length).toBe(1);
+                    const rekey = toReceiver[0];
+                    expect(rekey['type']).toBe('rekey');
+                    expect(rekey['id']).toBe(CHANNEL_ID);
+                    expect(rekey['epoch']).toBe(1);
+                    expect(rekey['salt'].byteLength).toBe(24);
+
+                    // Receiver accepts the new key, sender still uses the initial key
+                    receiver.onRekey(rekey['epoch'], new Uint8Array(rekey['salt']));
+                    expect(toSender).toEqual([{type: 'rekey-ack', id: CHANNEL_ID, epoch: 1}]);
+                    transfer();
+                    expect(sender['outgoingKey']).toBe(initial);
+
+                    // Sender switches to the new key
+                    sender.onRekeyAck(1);
+                    transfer();
+                    expect(sender['outgoingKey'].epoch).toBe(1);
+                    expect(sender['outgoingKey'].key).not.toEqual(initial.key);
+                    expect(toReceiver.length).toBe(1);
+                });
+
+                it('rotates keys after the maximum key age', () => {
+                    jasmine.clock().install();
+                    jasmine.clock().mockDate(new Date(2022, 0, 1));
+                    try {
+                        createContexts({maxMessages: 0, maxAgeMs: 1000});
+                        transfer();
+                        jasmine.clock().tick(999);
+                        transfer();
+                        expect(toReceiver).toEqual([]);
+                        jasmine.clock().tick(1);
+                        transfer();
+                        expect(toReceiver.length).toBe(1);
+                    } finally {
+                        jasmine.clock().uninstall();
+                    }
+                });
+
+                it('can rotate keys manually', () => {
+                    createContexts({maxMessages: 0, maxAgeMs: 0});
+                    sender.rotateKey();
+                    sender.rotateKey();
+                    expect(toReceiver.length).toBe(1);
+                    receiver.onRekey(1, new Uint8Array(toReceiver[0]['salt']));
+                    sender.onRekeyAck(1);
+                    transfer();
+                });
+
+                it('rejects messages encrypted with an outdated key', () => {
+                    createContexts({maxMessages: 0, maxAgeMs: 0});
+                    const outdated = sender.encrypt(MESSAGE);
+
+                    // Rotate twice
+                    for (let epoch = 1; epoch <= 2; ++epoch) {
+                        sender.rotateKey();
+                        receiver.onRekey(epoch, new Uint8Array(toReceiver[epoch - 1]['salt']));
+                        sender.onRekeyAck(epoch);
+                        transfer();
+                    }
+                    expect(() => receiver.decrypt(outdated)).toThrowError('Unable to decrypt data');
+                });
+
+                it('rejects unexpected epochs', () => {
+                    createContexts({maxMessages: 0, maxAgeMs: 0});
+                    expect(() => receiver.onRekey(2, new Uint8Array(24)))
+                        .toThrowError('Unexpected key epoch 2, expected 1');
+                    expect(() => sender.onRekeyAck(1))
+                        .toThrowError('Unexpected key rotation acknowledgement for epoch 1');
+                });
+
+                it('requires key rotation to be negotiated', () => {
+                    // @ts-ignore
+                    const fakeSignaling = new FakeSignaling() as saltyrtc.Signaling;
+                    const context = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling);
+                    expect(() => context.rotateKey())
+                        .toThrowError('Key rotation has not been negotiated');
+                });
+            });
+
+            describe('csn exhaustion', function() {
+                let context: DataChannelCryptoContext;
+
+                // Fast-forward the outgoing CSN, so `remaining` messages can
+                // still be encrypted
+                const fastForward = (remaining: number) => {
+                    const csn = context['csnPair'].ours;
+                    csn['overflow'] = 0xFFFF;
+                    csn['sequenceNumber'] = 0xFFFFFFFF - remaining;
+                };
+
+                beforeEach(() => {
+                    // @ts-ignore
+                    const fakeSignaling = new FakeSignaling() as saltyrtc.Signaling;
+                    context = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling);
+                });
+
+                it('uses the highest combined sequence number', () => {
+                    fastForward(1);
+                    const box = context.encrypt(new Uint8Array(0));
+                    const nonce = DataChannelNonce.fromUint8Array(box.nonce);
+                    expect(nonce.overflow).toBe(0xFFFF);
+                    expect(nonce.sequenceNumber).toBe(0xFFFFFFFF);
+                    expect(nonce.combinedSequenceNumber).toBe(DataChannelCryptoContext.MAX_CSN);
+                });
+
+                it('refuses to encrypt once exhausted', () => {
+                    fastForward(2);
+                    context.encrypt(new Uint8Array(0));
+                    context.encrypt(new Uint8Array(0));
+                    let error: CsnExhaustedError;
+                    try {
+                        context.encrypt(new Uint8Array(0));
+                    } catch (e) {
+                        error = e;
+                    }
+                    expect(error.name).toBe('CsnExhaustedError');
+                    expect(error.channelId).toBe(CHANNEL_ID);
+                    expect(error.message).toBe(
+                        `Combined sequence numbers of data channel ${CHANNEL_ID} are exhausted`);
+
+                    // Must not recover
+                    expect(() => context.encrypt(new Uint8Array(0))).toThrowError(
+                        `Combined sequence numbers of data channel ${CHANNEL_ID} are exhausted`);
+                });
+
+                it('warns once the threshold has been reached', () => {
+                    const warnings: number[] = [];
+                    context.enableCsnWarning(2, (remaining) => warnings.push(remaining));
+                    fastForward(4);
+                    context.encrypt(new Uint8Array(0));
+                    expect(warnings).toEqual([]);
+                    context.encrypt(new Uint8Array(0));
+                    expect(warnings).toEqual([2]);
+                    context.encrypt(new Uint8Array(0));
+                    context.encrypt(new Uint8Array(0));
+                    expect(warnings).toEqual([2]);
+                });
+            });
+
+            describe('encryptInto and decryptFrom', function() {
+                const MESSAGE = Uint8Array.of(1, 2, 3, 4);
+                let sender: DataChannelCryptoContext;
+                let receiver: DataChannelCryptoContext;
+
+                beforeEach(() => {
+                    // @ts-ignore
+                    const fakeSignaling = new FakeSignaling() as saltyrtc.Signaling;
+                    sender = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling);
+                    receiver = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling);
+                });
+
+                it('writes the nonce followed by the encrypted data', () => {
+                    const buffer = new Uint8Array(64).fill(0xff);
+                    const target = buffer.subarray(8, 8 + MESSAGE.byteLength + OVERHEAD_LENGTH);
+                    const length = sender.encryptInto(MESSAGE, target);
+
+                    // Note: The fake signaling does not add an authenticator
+                    expect(length).toBe(NONCE_LENGTH + MESSAGE.byteLength);
+                    const nonce = DataChannelNonce.fromUint8Array(target.subarray(0, NONCE_LENGTH));
+                    expect(nonce.channelId).toBe(CHANNEL_ID);
+                    expect(target.subarray(NONCE_LENGTH, length)).toEqual(MESSAGE);
+                    expect(buffer.subarray(0, 8)).toEqual(new Uint8Array(8).fill(0xff));
+                    expect(receiver.decryptFrom(target.subarray(0, length))).toEqual(MESSAGE);
+                });
+
+                it('encrypts into the target buffer with derived keys', () => {
+                    const signaling = new SessionKeySignaling() as any as saltyrtc.Signaling;
+                    sender = new DataChannelCryptoContext(CHANNEL_ID, signaling);
+                    receiver = new DataChannelCryptoContext(CHANNEL_ID, signaling);
+                    const policy = {maxMessages: 0, maxAgeMs: 0};
+                    sender.enableKeyRotation(policy, () => undefined);
+                    receiver.enableKeyRotation(policy, () => undefined);
+
+                    const encrypt = spyOn(SignalingCryptoBackend.prototype, 'encrypt')
+                        .and.callThrough();
+                    const secretbox = spyOn((nacl as any).lowlevel, 'crypto_secretbox')
+                        .and.callThrough();
+
+                    const buffer = new Uint8Array(64).fill(0xff);
+                    const target = buffer.subarray(8, 8 + MESSAGE.byteLength + OVERHEAD_LENGTH);
+                    const length = sender.encryptInto(MESSAGE, target);
+
+                    // Encrypted in place without an intermediate buffer
+                    expect(encrypt).not.toHaveBeenCalled();
+                    expect(secretbox).toHaveBeenCalledTimes(1);
+                    const [c, m] = secretbox.calls.argsFor(0);
+                    expect(c).toBe(m);
+                    expect(c.buffer).toBe(buffer.buffer);
+                    expect(c.byteOffset).toBe(target.byteOffset + NONCE_LENGTH + 16 - 32);
+
+                    expect(length).toBe(MESSAGE.byteLength + OVERHEAD_LENGTH);
+                    expect(buffer.subarray(0, 8)).toEqual(new Uint8Array(8).fill(0xff));
+                    expect(buffer.subarray(8 + length)).toEqual(
+                        new Uint8Array(56 - length).fill(0xff));
+                    expect(receiver.decryptFrom(target.subarray(0, length))).toEqual(MESSAGE);
+                });
+
+                it('rejects a target buffer that is too small', () => {
+                    const first = DataChannelNonce.fromUint8Array(sender.encrypt(MESSAGE).nonce);
+                    const target = new Uint8Array(MESSAGE.byteLength + OVERHEAD_LENGTH - 1);
+                    expect(() => sender.encryptInto(MESSAGE, target)).toThrowError(
+                        'Target buffer is too small, 44 bytes are required');
+
+                    // Must not consume a combined sequence number
+                    const second = DataChannelNonce.fromUint8Array(sender.encrypt(MESSAGE).nonce);
+                    expect(second.combinedSequenceNumber).toBe(first.combinedSequenceNumber + 1);
+                });
+
+                it('allows to reuse the buffer of a decrypted message', () => {
+                    const buffer = new Uint8Array(64);
+                    const length = sender.encryptInto(MESSAGE, buffer);
+                    expect(receiver.decryptFrom(buffer.subarray(0, length))).toEqual(MESSAGE);
+                    buffer.fill(0);
+
+                    // Remote cookie must not have been altered
+                    expect(receiver.decrypt(sender.encrypt(MESSAGE))).toEqual(MESSAGE);
+                });
+
+                it('rejects messages shorter than the nonce', () => {
+                    expect(() => receiver.decryptFrom(new Uint8Array(NONCE_LENGTH)))
+                        .toThrowError('Message is shorter than nonce');
+                });
+            });
+
+            describe('backend', function() {
+                const MESSAGE = Uint8Array.of(1, 2, 3, 4);
+                let backend: FakeBackend;
+                let sender: DataChannelCryptoContext;
+                let receiver: DataChannelCryptoContext;
+
+                beforeEach(() => {
+                    // @ts-ignore
+                    const fakeSignaling = new FakeSignaling() as saltyrtc.Signaling;
+                    backend = new FakeBackend();
+                    sender = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling, {backend});
+                    receiver = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling, {backend});
+                });
+
+                it('encrypts by the use of the backend', () => {
+                    const box = sender.encrypt(MESSAGE);
+                    expect(box.data).toEqual(Uint8Array.of(4, 3, 2, 1));
+                    expect(DataChannelNonce.fromUint8Array(box.nonce).channelId).toBe(CHANNEL_ID);
+                    expect(backend.keys).toEqual([null]);
+                });
+
+                it('decrypts by the use of the backend', () => {
+                    expect(receiver.decrypt(sender.encrypt(MESSAGE))).toEqual(MESSAGE);
+                    expect(backend.keys).toEqual([null, null]);
+                });
+
+                it('rejects data the backend cannot decrypt', () => {
+                    const box = sender.encrypt(MESSAGE);
+                    backend.fail = true;
+                    expect(() => receiver.decrypt(box)).toThrowError('Unable to decrypt data');
+                });
+
+                it('lets the backend write into the target buffer', () => {
+                    // @ts-ignore
+                    const fakeSignaling = new FakeSignaling() as saltyrtc.Signaling;
+                    const inPlaceBackend = new InPlaceBackend();
+                    sender = new DataChannelCryptoContext(
+                        CHANNEL_ID, fakeSignaling, {backend: inPlaceBackend});
+
+                    const target = new Uint8Array(MESSAGE.byteLength + OVERHEAD_LENGTH);
+                    const length = sender.encryptInto(MESSAGE, target);
+
+                    expect(inPlaceBackend.targets.length).toBe(1);
+                    expect(inPlaceBackend.targets[0]).toBe(target);
+                    expect(inPlaceBackend.keys).toEqual([]);
+                    expect(target.subarray(NONCE_LENGTH, length))
+                        .toEqual(Uint8Array.of(4, 3, 2, 1));
+                    expect(receiver.decryptFrom(target.subarray(0, length))).toEqual(MESSAGE);
+                });
+
+                it('uses derived keys once key rotation has been enabled', () => {
+                    const policy = {maxMessages: 0, maxAgeMs: 0};
+                    sender.enableKeyRotation(policy, () => undefined);
+                    receiver.enableKeyRotation(policy, () => undefined);
+                    backend.keys.length = 0;
+
+                    expect(receiver.decrypt(sender.encrypt(MESSAGE))).toEqual(MESSAGE);
+                    expect(backend.keys.length).toBe(2);
+                    expect(backend.keys[0].byteLength).toBe(32);
+                    expect(backend.keys[1]).toEqual(backend.keys[0]);
+                });
             });
         });
     });
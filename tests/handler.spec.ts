@@ -0,0 +1,131 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path="jasmine.d.ts" />
+
+import {createDataChannelHandler} from "../src/handler";
+import {SignalingTransportLink} from "../src/transport";
+
+/**
+ * Fakes a data channel, allowing the test to dispatch events.
+ */
+class FakeDataChannel {
+    public binaryType: string = 'blob';
+    public bufferedAmount: number = 0;
+    public bufferedAmountLowThreshold: number = 0;
+    public onopen: () => void = null;
+    public onclose: () => void = null;
+    public onerror: (event: any) => void = null;
+    public onmessage: (event: any) => void = null;
+    public onbufferedamountlow: () => void = null;
+    public sent: Array<Uint8Array> = [];
+    public closed: boolean = false;
+
+    public constructor(public readonly label: string, public readonly options: RTCDataChannelInit) {}
+
+    public send(message: Uint8Array): void {
+        this.sent.push(message);
+    }
+
+    public close(): void {
+        this.closed = true;
+    }
+}
+
+/**
+ * Fakes a peer connection, storing the created data channel.
+ */
+class FakePeerConnection {
+    public sctp: { maxMessageSize: number } | null = null;
+    public dc: FakeDataChannel = null;
+
+    public createDataChannel(label: string, options: RTCDataChannelInit): RTCDataChannel {
+        this.dc = new FakeDataChannel(label, options);
+        return this.dc as unknown as RTCDataChannel;
+    }
+}
+
+export default () => {
+    describe('handler', function() {
+        describe('createDataChannelHandler', function() {
+            let pc: FakePeerConnection;
+            let link: SignalingTransportLink;
+            let events: Array<string | Uint8Array>;
+
+            beforeEach(() => {
+                pc = new FakePeerConnection();
+                link = new SignalingTransportLink(1337, 'v1.saltyrtc.org');
+                events = [];
+                link.closed = () => { events.push('closed'); };
+                link.bufferedAmountLow = () => { events.push('bufferedamountlow'); };
+                link.receive = (message) => { events.push(message); };
+            });
+
+            it('creates a negotiated data channel from the link', () => {
+                createDataChannelHandler(pc, link);
+                expect(pc.dc.label).toBe('saltyrtc-signaling');
+                expect(pc.dc.options).toEqual({
+                    id: 1337,
+                    negotiated: true,
+                    ordered: true,
+                    protocol: 'v1.saltyrtc.org',
+                });
+                expect(pc.dc.binaryType).toBe('arraybuffer');
+                expect(pc.dc.bufferedAmountLowThreshold).toBe(link.bufferedAmountLowThreshold);
+            });
+
+            it('resolves with a handler once open', async () => {
+                const promise = createDataChannelHandler(pc, link);
+                pc.dc.onopen();
+                const handler = await promise;
+
+                // Maximum message size
+                expect(handler.maxMessageSize).toBe(16384);
+                pc.sctp = {maxMessageSize: 262144};
+                expect(handler.maxMessageSize).toBe(262144);
+
+                // Buffered amount
+                pc.dc.bufferedAmount = 42;
+                expect(handler.bufferedAmount).toBe(42);
+
+                // Send & close
+                const message = Uint8Array.of(1, 2, 3);
+                handler.send(message);
+                expect(pc.dc.sent).toEqual([message]);
+                handler.close();
+                expect(pc.dc.closed).toBe(true);
+            });
+
+            it('forwards events to the link', async () => {
+                const promise = createDataChannelHandler(pc, link);
+                pc.dc.onopen();
+                await promise;
+                pc.dc.onmessage({data: Uint8Array.of(4, 5, 6).buffer});
+                pc.dc.onbufferedamountlow();
+                pc.dc.onclose();
+                expect(events).toEqual([Uint8Array.of(4, 5, 6), 'bufferedamountlow', 'closed']);
+            });
+
+            it('rejects if closed before open', async () => {
+                const promise = createDataChannelHandler(pc, link);
+                pc.dc.onclose();
+                let error: Error;
+                await promise.catch((e) => error = e);
+                expect(error.message).toBe('Data channel closed before it opened');
+                expect(events).toEqual([]);
+            });
+
+            it('rejects if errored before open', async () => {
+                const promise = createDataChannelHandler(pc, link);
+                pc.dc.onerror('boom');
+                let error: Error;
+                await promise.catch((e) => error = e);
+                expect(error.message).toBe('Data channel errored before it opened: boom');
+            });
+        });
+    });
+}
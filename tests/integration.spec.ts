@@ -846,7 +846,7 @@ export default () => {
                         bindDataChannelEvents('responder', dc);
 
                         // Get crypto context
-                        const crypto = pair.initiator.task.createCryptoContext(dc.id);
+                        const crypto = pair.responder.task.createCryptoContext(dc.id);
 
                         // Create unchunker
                         const unchunker = new chunkedDc.ReliableOrderedUnchunker();
@@ -9,7 +9,15 @@
 
 import test_nonce from "./nonce.spec";
 import test_crypto from "./crypto.spec";
+import test_schema from "./schema.spec";
 import test_transport from "./transport.spec";
+import test_channel from "./channel.spec";
+import test_stream from "./stream.spec";
+import test_worker from "./worker.spec";
+import test_handler from "./handler.spec";
+import test_binder from "./binder.spec";
+import test_candidates from "./candidates.spec";
+import test_task from "./task.spec";
 import test_integration from "./integration.spec";
 
 let counter = 1;
@@ -17,5 +25,13 @@ beforeEach(() => console.info('------ TEST', counter++, 'BEGIN ------'));
 
 test_nonce();
 test_crypto();
+test_schema();
 test_transport();
+test_channel();
+test_stream();
+test_worker();
+test_handler();
+test_binder();
+test_candidates();
+test_task();
 test_integration();
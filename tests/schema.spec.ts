@@ -0,0 +1,105 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path="jasmine.d.ts" />
+
+import {describeErrors, MAX_CANDIDATES, MAX_SDP_LENGTH, validateMessage} from "../src/schema";
+
+export default () => {
+    describe('schema', function() {
+        describe('validateMessage', function() {
+            const candidate = {candidate: 'FOO', sdpMid: 'data', sdpMLineIndex: 0};
+
+            it('accepts valid messages', () => {
+                expect(validateMessage({type: 'offer', offer: {type: 'offer', sdp: 'v=0'}}))
+                    .toEqual([]);
+                expect(validateMessage({type: 'answer', answer: {type: 'answer', sdp: 'v=0'}}))
+                    .toEqual([]);
+                expect(validateMessage({type: 'answer', answer: {type: 'pranswer', sdp: 'v=0'}}))
+                    .toEqual([]);
+                expect(validateMessage({type: 'candidates', candidates: [candidate, null]}))
+                    .toEqual([]);
+                expect(validateMessage({
+                    type: 'candidates',
+                    candidates: [{candidate: 'FOO', sdpMid: null, sdpMLineIndex: null}],
+                })).toEqual([]);
+                expect(validateMessage({type: 'handover'})).toEqual([]);
+                expect(validateMessage({type: 'rekey', id: 1, epoch: 1, salt: new Uint8Array(24)}))
+                    .toEqual([]);
+                expect(validateMessage({type: 'rekey-ack', id: 1, epoch: 1})).toEqual([]);
+                expect(validateMessage({type: 'rekey-reject', id: 1, epoch: 1})).toEqual([]);
+            });
+
+            it('rejects an offer of the wrong type', () => {
+                expect(validateMessage({type: 'offer', offer: {type: 'answer', sdp: 'v=0'}}))
+                    .toEqual([{path: 'offer.type', reason: "must be one of 'offer'"}]);
+            });
+
+            it('rejects a missing or non-string sdp', () => {
+                expect(validateMessage({type: 'offer', offer: {type: 'offer'}}))
+                    .toEqual([{path: 'offer.sdp', reason: 'must be a string'}]);
+                expect(validateMessage({type: 'answer', answer: {type: 'answer', sdp: 42}}))
+                    .toEqual([{path: 'answer.sdp', reason: 'must be a string'}]);
+            });
+
+            it('rejects a missing description', () => {
+                expect(validateMessage({type: 'answer'}))
+                    .toEqual([{path: 'answer', reason: 'must be an object'}]);
+            });
+
+            it('rejects an oversized sdp', () => {
+                const sdp = 'a'.repeat(MAX_SDP_LENGTH + 1);
+                const errors = validateMessage({type: 'offer', offer: {type: 'offer', sdp: sdp}});
+                expect(errors.length).toBe(1);
+                expect(errors[0].path).toBe('offer.sdp');
+            });
+
+            it('rejects invalid candidates', () => {
+                expect(validateMessage({type: 'candidates', candidates: []}))
+                    .toEqual([{path: 'candidates', reason: 'must contain at least 1 item(s)'}]);
+                expect(validateMessage({
+                    type: 'candidates',
+                    candidates: [candidate, {candidate: 'FOO', sdpMid: 1, sdpMLineIndex: -1}],
+                })).toEqual([
+                    {path: 'candidates[1].sdpMid', reason: 'must be a string'},
+                    {path: 'candidates[1].sdpMLineIndex', reason: 'must not be less than 0'},
+                ]);
+            });
+
+            it('rejects too many candidates', () => {
+                const candidates = new Array(MAX_CANDIDATES + 1).fill(candidate);
+                expect(validateMessage({type: 'candidates', candidates: candidates})).toEqual([{
+                    path: 'candidates',
+                    reason: `must not contain more than ${MAX_CANDIDATES} items`,
+                }]);
+            });
+
+            it('rejects an invalid rekey message', () => {
+                expect(validateMessage({type: 'rekey', id: 65535, epoch: 0, salt: [1, 2, 3]}))
+                    .toEqual([
+                        {path: 'id', reason: 'must not be greater than 65534'},
+                        {path: 'epoch', reason: 'must not be less than 1'},
+                        {path: 'salt', reason: 'must be a byte array'},
+                    ]);
+                expect(validateMessage({type: 'rekey', id: 1, epoch: 1, salt: new Uint8Array(23)}))
+                    .toEqual([{path: 'salt', reason: 'must be 24 bytes long'}]);
+            });
+
+            it('rejects unknown message types', () => {
+                expect(validateMessage({type: 'toString'}))
+                    .toEqual([{path: 'type', reason: 'unknown message type'}]);
+            });
+
+            it('describes errors', () => {
+                expect(describeErrors([
+                    {path: 'offer.sdp', reason: 'must be a string'},
+                    {path: '', reason: 'must be an object'},
+                ])).toBe('offer.sdp: must be a string; must be an object');
+            });
+        });
+    });
+}
@@ -0,0 +1,184 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path="jasmine.d.ts" />
+
+import {DataChannelCryptoContext} from "../src/crypto";
+import {DataChannelNonce} from "../src/nonce";
+import {DecryptingStream, EncryptingStream} from "../src/stream";
+
+class FakeSignaling {
+    public encryptForPeer(data: Uint8Array, nonce: Uint8Array): saltyrtc.Box {
+        // Don't actually encrypt
+        return new saltyrtcClient.Box(nonce, data, DataChannelNonce.TOTAL_LENGTH);
+    };
+
+    public decryptFromPeer(box: saltyrtc.Box): Uint8Array {
+        // Don't actually decrypt
+        return box.data;
+    }
+}
+
+/**
+ * Create an async iterable yielding the chunks.
+ */
+function iterableOf(chunks: Uint8Array[]): AsyncIterable<Uint8Array> {
+    let index = 0;
+    return {
+        [Symbol.asyncIterator]: () => ({
+            next: () => Promise.resolve(index < chunks.length
+                ? {done: false, value: chunks[index++]}
+                : {done: true, value: undefined}),
+        }),
+    };
+}
+
+/**
+ * Collect all chunks of a stream.
+ */
+async function collect(stream: saltyrtc.tasks.webrtc.CryptoStream): Promise<Uint8Array[]> {
+    const chunks = [];
+    while (true) {
+        const result = await stream.next();
+        if (result.done) {
+            return chunks;
+        }
+        chunks.push(result.value);
+    }
+}
+
+/**
+ * Concatenate chunks.
+ */
+function concat(chunks: Uint8Array[]): Uint8Array {
+    const length = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return result;
+}
+
+export default () => {
+    describe('stream', function() {
+        const CHANNEL_ID = 1337;
+        const data = Uint8Array.of(1, 2, 3, 4, 5, 6, 7, 8, 9, 10);
+        let sender: DataChannelCryptoContext;
+        let receiver: DataChannelCryptoContext;
+
+        beforeEach(() => {
+            // @ts-ignore
+            const fakeSignaling = new FakeSignaling() as saltyrtc.Signaling;
+            sender = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling);
+            receiver = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling);
+        });
+
+        // Encrypt the chunks and return the serialised boxes
+        const encrypt = (chunks: Uint8Array[], chunkLength?: number): Promise<Uint8Array[]> => {
+            return collect(new EncryptingStream(sender, iterableOf(chunks), chunkLength));
+        };
+
+        // Decrypt the serialised boxes and return the error (if any)
+        const decryptError = async (boxes: Uint8Array[]): Promise<Error | null> => {
+            let error = null;
+            await collect(new DecryptingStream(receiver, iterableOf(boxes)))
+                .catch((e) => error = e);
+            return error;
+        };
+
+        it('encrypts and decrypts an async iterable', async () => {
+            const boxes = await encrypt([data.subarray(0, 3), data.subarray(3)], 4);
+            const chunks = await collect(new DecryptingStream(receiver, iterableOf(boxes)));
+            expect(concat(chunks)).toEqual(data);
+        });
+
+        it('accepts a ReadableStream', async () => {
+            const source = new ReadableStream({
+                start: (controller) => {
+                    controller.enqueue(data);
+                    controller.close();
+                },
+            });
+            const boxes = await collect(new EncryptingStream(sender, source));
+            const chunks = await collect(new DecryptingStream(receiver, iterableOf(boxes)));
+            expect(concat(chunks)).toEqual(data);
+        });
+
+        it('can be used as an async iterable', () => {
+            const stream = new EncryptingStream(sender, iterableOf([data]));
+            expect(stream[Symbol.asyncIterator]()).toBe(stream);
+        });
+
+        it('splits chunks into frames', async () => {
+            const boxes = await encrypt([data], 4);
+            expect(boxes.length).toBe(4);
+            // Nonce, frame header and up to 4 bytes of payload
+            const maxLength = DataChannelCryptoContext.NONCE_LENGTH + 17 + 4;
+            for (const box of boxes) {
+                expect(box.byteLength <= maxLength).toBe(true);
+            }
+        });
+
+        it('encrypts an empty source', async () => {
+            const boxes = await encrypt([]);
+            expect(boxes.length).toBe(1);
+            const chunks = await collect(new DecryptingStream(receiver, iterableOf(boxes)));
+            expect(chunks).toEqual([]);
+        });
+
+        it('detects truncation', async () => {
+            const boxes = await encrypt([data], 4);
+            const error = await decryptError(boxes.slice(0, 3));
+            expect(error.message).toBe('Stream truncated');
+        });
+
+        it('detects reordering', async () => {
+            const boxes = await encrypt([data], 4);
+            const error = await decryptError([boxes[0], boxes[2], boxes[1], boxes[3]]);
+            expect(error.message).toBe('Stream frame out of order (expected 1, got 2)');
+        });
+
+        it('detects a missing start frame', async () => {
+            const boxes = await encrypt([data], 4);
+            const error = await decryptError(boxes.slice(1));
+            expect(error.message).toBe('Stream does not begin with a start frame');
+        });
+
+        it('detects frames of another stream', async () => {
+            const boxes = await encrypt([data], 4);
+            const otherBoxes = await encrypt([data], 4);
+            const error = await decryptError([boxes[0], otherBoxes[1]]);
+            expect(error.message).toBe('Stream id mismatch');
+        });
+
+        it('is done after an error', async () => {
+            const boxes = await encrypt([data], 4);
+            const stream = new DecryptingStream(receiver, iterableOf(boxes.slice(1)));
+            await stream.next().catch(() => undefined);
+            expect(await stream.next()).toEqual({done: true, value: undefined});
+        });
+
+        it('stops on return', async () => {
+            const stream = new EncryptingStream(sender, iterableOf([data]), 4);
+            await stream.next();
+            expect(await stream.return()).toEqual({done: true, value: undefined});
+            expect(await stream.next()).toEqual({done: true, value: undefined});
+        });
+
+        it('rejects invalid sources', () => {
+            expect(() => new EncryptingStream(sender, {} as any)).toThrowError(
+                'Stream source must be a ReadableStream or an async iterable');
+        });
+
+        it('rejects an invalid chunk length', () => {
+            expect(() => new EncryptingStream(sender, iterableOf([]), 0)).toThrowError(
+                'Chunk length must be a positive integer');
+        });
+    });
+}
@@ -0,0 +1,1163 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path="jasmine.d.ts" />
+
+import {WebRTCTask, WebRTCTaskBuilder} from "../src/task";
+import {SignalingTransportLink} from "../src/transport";
+
+// Provided by msgpack-lite
+declare const msgpack: any;
+
+/**
+ * Fakes the signalling and simulates a state where the task has kicked in.
+ *
+ * Keeps track of sent task messages and connection resets.
+ */
+class FakeSignaling {
+    public role: saltyrtc.SignalingRole = 'initiator';
+    public state: saltyrtc.SignalingState = 'task';
+    public handoverState = {
+        local: false,
+        peer: false,
+        get any() { return this.local || this.peer; },
+        get both() { return this.local && this.peer; },
+        reset() { this.local = false; this.peer = false; },
+    } as saltyrtc.HandoverState;
+    public sentMessages: Array<saltyrtc.messages.TaskMessage> = [];
+    public resetCloseCodes: Array<number> = [];
+
+    public getState(): saltyrtc.SignalingState {
+        return this.state;
+    }
+
+    public setState(state: saltyrtc.SignalingState): void {
+        this.state = state;
+    }
+
+    public sendTaskMessage(message: saltyrtc.messages.TaskMessage): void {
+        this.sentMessages.push(message);
+    }
+
+    public resetConnection(reason?: number): void {
+        this.resetCloseCodes.push(reason);
+    }
+
+    // noinspection JSMethodCanBeStatic
+    public encryptForPeer(data: Uint8Array, nonce: Uint8Array): saltyrtc.Box {
+        // Don't actually encrypt
+        return new saltyrtcClient.Box(nonce, data, nonce.byteLength);
+    }
+}
+
+/**
+ * Fakes the signalling of one of two connected peers.
+ *
+ * Task messages are sent via the server unless handover has been requested
+ * locally. Messages sent via the server are queued until they are being
+ * delivered explicitly. Like the client, a message via the server resets
+ * the connection in case the peer requested handover.
+ */
+class FakePeerSignaling extends FakeSignaling {
+    public task: WebRTCTask;
+    public remote: FakePeerSignaling;
+    public serverQueue: Array<saltyrtc.messages.TaskMessage> = [];
+
+    public sendTaskMessage(message: saltyrtc.messages.TaskMessage): void {
+        super.sendTaskMessage(message);
+        if (this.handoverState.local) {
+            this.task.sendSignalingMessage(new TextEncoder().encode(JSON.stringify(message)));
+        } else {
+            this.remote.serverQueue.push(message);
+        }
+    }
+
+    public deliver(): void {
+        const messages = this.serverQueue;
+        this.serverQueue = [];
+        for (const message of messages) {
+            if (this.handoverState.peer) {
+                this.resetConnection(saltyrtcClient.CloseCode.ProtocolError);
+                return;
+            }
+            this.task.onTaskMessage(message);
+        }
+    }
+
+    public onSignalingPeerMessage(decrypted: Uint8Array): void {
+        this.task.onTaskMessage(JSON.parse(new TextDecoder().decode(decrypted)));
+    }
+
+    // noinspection JSMethodCanBeStatic
+    public decryptFromPeer(box: saltyrtc.Box): Uint8Array {
+        // Don't actually decrypt
+        return box.data;
+    }
+}
+
+export default () => {
+    describe('task', function() {
+        describe('WebRTCTask', function() {
+            let fakeSignaling: FakeSignaling;
+
+            const createTask = (
+                builder: WebRTCTaskBuilder = new WebRTCTaskBuilder(),
+                peerData: Object = {'exclude': [], 'handover': true},
+            ): WebRTCTask => {
+                const task = builder.withLoggingLevel('debug').build();
+                task.init(fakeSignaling as any as saltyrtc.Signaling, peerData);
+                return task;
+            };
+
+            beforeEach(() => {
+                fakeSignaling = new FakeSignaling();
+            });
+
+            describe('chunking mode', function() {
+                it('offers reliable/ordered chunking by default', () => {
+                    const task = new WebRTCTaskBuilder().build();
+                    expect(task.getData()['reliable_ordered_chunking']).toBe(true);
+                });
+
+                it('does not offer reliable/ordered chunking if disabled', () => {
+                    const task = new WebRTCTaskBuilder()
+                        .withReliableOrderedChunking(false)
+                        .build();
+                    expect(task.getData()['reliable_ordered_chunking']).toBe(false);
+                });
+
+                it('uses reliable/ordered chunking if offered by both', () => {
+                    const task = createTask(undefined, {
+                        'exclude': [],
+                        'handover': true,
+                        'reliable_ordered_chunking': true,
+                    });
+                    expect(task['chunkingMode']).toBe('reliable-ordered');
+                });
+
+                it('falls back to unreliable/unordered chunking if not offered by peer', () => {
+                    const task = createTask();
+                    expect(task['chunkingMode']).toBe('unreliable-unordered');
+                    expect(task.getData()['reliable_ordered_chunking']).toBe(false);
+                });
+
+                it('falls back to unreliable/unordered chunking if not offered locally', () => {
+                    const builder = new WebRTCTaskBuilder().withReliableOrderedChunking(false);
+                    const task = createTask(builder, {
+                        'exclude': [],
+                        'handover': true,
+                        'reliable_ordered_chunking': true,
+                    });
+                    expect(task['chunkingMode']).toBe('unreliable-unordered');
+                });
+            });
+
+            describe('message validation', function() {
+                it('emits a validation error for invalid incoming messages', () => {
+                    const task = createTask();
+                    const events = [];
+                    task.on(['offer', 'validation-error'], (event) => { events.push(event); });
+                    task.onTaskMessage({'type': 'offer', 'offer': {'type': 'answer', 'sdp': 1}});
+                    expect(events.length).toBe(1);
+                    expect(events[0].type).toBe('validation-error');
+                    expect(events[0].data).toEqual({
+                        type: 'offer',
+                        errors: [
+                            {path: 'offer.type', reason: "must be one of 'offer'"},
+                            {path: 'offer.sdp', reason: 'must be a string'},
+                        ],
+                    });
+                });
+
+                it('warns about invalid outgoing messages but sends them', () => {
+                    const task = createTask();
+                    const warnings: Array<string> = [];
+                    spyOn(task['log'], 'warn').and.callFake((tag, message) => {
+                        warnings.push(message);
+                    });
+                    task.sendOffer({type: 'answer', sdp: 'v=0'});
+                    task.sendAnswer({type: 'answer'});
+                    task.sendCandidate({candidate: 'FOO', sdpMid: 'data'});
+                    task.flushCandidates();
+                    expect(warnings).toEqual([
+                        "Sending invalid offer message: offer.type: must be one of 'offer'",
+                        'Sending invalid answer message: answer.sdp: must be a string',
+                        'Sending invalid candidates: candidates[0].sdpMLineIndex: ' +
+                            'must be an integer',
+                    ]);
+                    expect(fakeSignaling.sentMessages.map((message) => message.type))
+                        .toEqual(['offer', 'answer', 'candidates']);
+                });
+            });
+
+            describe('protocol error policy', function() {
+                const invalidOffer = {'type': 'offer', 'offer': {'type': 'offer'}};
+                const noHandover = {'exclude': [], 'handover': false};
+                let events: Array<saltyrtc.SaltyRTCEvent>;
+
+                const createPolicyTask = (
+                    policy?: saltyrtc.tasks.webrtc.ProtocolErrorPolicy,
+                    peerData?: Object,
+                ): WebRTCTask => {
+                    const builder = new WebRTCTaskBuilder();
+                    if (policy !== undefined) {
+                        builder.withProtocolErrorPolicy(policy);
+                    }
+                    const task = createTask(builder, peerData);
+                    events = [];
+                    task.on(['validation-error', 'protocol-error'], (event) => {
+                        events.push(event);
+                    });
+                    return task;
+                };
+
+                it('emits events by default', () => {
+                    const task = createPolicyTask(undefined);
+                    task.onTaskMessage({'type': 'foo'});
+                    expect(events).toEqual([{
+                        type: 'protocol-error',
+                        data: {type: 'foo', reason: 'Unknown message type'},
+                    }]);
+                    expect(fakeSignaling.resetCloseCodes).toEqual([]);
+                });
+
+                it('resets on unexpected handover messages by default', () => {
+                    const task = createPolicyTask(undefined, noHandover);
+                    task.onTaskMessage({'type': 'handover'});
+                    expect(events).toEqual([]);
+                    expect(fakeSignaling.resetCloseCodes).toEqual([
+                        saltyrtcClient.CloseCode.ProtocolError,
+                    ]);
+                });
+
+                it('emits events on unexpected handover messages if set explicitly', () => {
+                    const task = createPolicyTask('emit-event', noHandover);
+                    task.onTaskMessage({'type': 'handover'});
+                    expect(events).toEqual([{
+                        type: 'protocol-error',
+                        data: {type: 'handover', reason: 'Handover has not been negotiated'},
+                    }]);
+                    expect(fakeSignaling.resetCloseCodes).toEqual([]);
+                });
+
+                it('can ignore protocol errors', () => {
+                    const task = createPolicyTask('ignore', noHandover);
+                    task.onTaskMessage(invalidOffer);
+                    task.onTaskMessage({'type': 'handover'});
+                    expect(events).toEqual([]);
+                    expect(fakeSignaling.resetCloseCodes).toEqual([]);
+                });
+
+                it('can reset the connection on protocol errors', () => {
+                    const task = createPolicyTask('reset', noHandover);
+                    task.onTaskMessage(invalidOffer);
+                    task.onTaskMessage({'type': 'handover'});
+                    expect(events).toEqual([]);
+                    expect(fakeSignaling.resetCloseCodes).toEqual([
+                        saltyrtcClient.CloseCode.ProtocolError,
+                        saltyrtcClient.CloseCode.ProtocolError,
+                    ]);
+                });
+
+                it('applies to unknown message types', () => {
+                    const task = createPolicyTask('reset');
+                    task.onTaskMessage({'type': 'foo'});
+                    expect(fakeSignaling.resetCloseCodes).toEqual([
+                        saltyrtcClient.CloseCode.ProtocolError,
+                    ]);
+                });
+
+                it('rejects unknown policies', () => {
+                    expect(() => new WebRTCTaskBuilder().withProtocolErrorPolicy('nope' as any))
+                        .toThrowError('Unknown protocol error policy: nope');
+                });
+            });
+
+            describe('candidate handling', function() {
+                const candidate = {'candidate': 'FOO', 'sdpMid': 'data', 'sdpMLineIndex': 0};
+
+                const sentCandidates = (): Array<Array<saltyrtc.tasks.webrtc.Candidate>> => {
+                    return fakeSignaling.sentMessages.map((message) => message['candidates']);
+                };
+
+                beforeEach(() => {
+                    jasmine.clock().install();
+                });
+
+                afterEach(() => {
+                    jasmine.clock().uninstall();
+                });
+
+                it('buffers candidates for the buffering window', () => {
+                    const task = createTask(new WebRTCTaskBuilder().withCandidateBufferingWindow(50));
+                    task.sendCandidate(candidate);
+                    task.sendCandidate(candidate);
+                    jasmine.clock().tick(49);
+                    expect(sentCandidates()).toEqual([]);
+                    jasmine.clock().tick(1);
+                    expect(sentCandidates()).toEqual([[candidate, candidate]]);
+                });
+
+                it('sends immediately if buffering is disabled', () => {
+                    const task = createTask(new WebRTCTaskBuilder().withCandidateBufferingWindow(0));
+                    task.sendCandidate(candidate);
+                    expect(sentCandidates()).toEqual([[candidate]]);
+                });
+
+                it('flushes once the maximum batch size has been reached', () => {
+                    const task = createTask(new WebRTCTaskBuilder().withMaxCandidateBatchSize(2));
+                    task.sendCandidate(candidate);
+                    expect(sentCandidates()).toEqual([]);
+                    task.sendCandidate(candidate);
+                    expect(sentCandidates()).toEqual([[candidate, candidate]]);
+                });
+
+                it('splits candidates into batches', () => {
+                    const task = createTask(new WebRTCTaskBuilder().withMaxCandidateBatchSize(2));
+                    task.sendCandidates([candidate, candidate, candidate]);
+                    expect(sentCandidates()).toEqual([[candidate, candidate], [candidate]]);
+                });
+
+                it('flushes on the end of candidates', () => {
+                    const task = createTask();
+                    task.sendCandidate(candidate);
+                    task.sendCandidate(null);
+                    expect(sentCandidates()).toEqual([[candidate, null]]);
+                    jasmine.clock().tick(10);
+                    expect(sentCandidates().length).toBe(1);
+                });
+
+                it('flushes explicitly', () => {
+                    const task = createTask();
+                    task.flushCandidates();
+                    expect(sentCandidates()).toEqual([]);
+                    task.sendCandidate(candidate);
+                    task.flushCandidates();
+                    expect(sentCandidates()).toEqual([[candidate]]);
+                    jasmine.clock().tick(10);
+                    expect(sentCandidates().length).toBe(1);
+                });
+
+                it('applies the candidate filter to outgoing candidates', () => {
+                    const dropped = {'candidate': 'BAR', 'sdpMid': 'data', 'sdpMLineIndex': 0};
+                    const task = createTask(new WebRTCTaskBuilder()
+                        .withCandidateFilter((c) => c.candidate === 'FOO'));
+                    task.sendCandidates([candidate, dropped, null]);
+                    expect(sentCandidates()).toEqual([[candidate, null]]);
+                });
+
+                it('drops candidates if the candidate filter throws', () => {
+                    const task = createTask(new WebRTCTaskBuilder()
+                        .withCandidateBufferingWindow(0)
+                        .withCandidateFilter(() => { throw new Error('nope'); }));
+                    task.sendCandidate(candidate);
+                    expect(sentCandidates()).toEqual([]);
+                });
+
+                it('applies the candidate transform after the candidate filter', () => {
+                    const transformed = {'candidate': 'BAZ', 'sdpMid': 'data', 'sdpMLineIndex': 0};
+                    const task = createTask(new WebRTCTaskBuilder()
+                        .withCandidateFilter((c) => c.candidate === 'FOO')
+                        .withCandidateTransform(() => transformed));
+                    task.sendCandidates([candidate, {...candidate, 'candidate': 'BAR'}, null]);
+                    expect(sentCandidates()).toEqual([[transformed, null]]);
+                });
+
+                it('drops candidates if the candidate transform returns an invalid one', () => {
+                    const task = createTask(new WebRTCTaskBuilder()
+                        .withCandidateBufferingWindow(0)
+                        .withCandidateTransform((c) => ({...c, 'sdpMLineIndex': -1})));
+                    task.sendCandidate(candidate);
+                    expect(sentCandidates()).toEqual([]);
+                });
+
+                it('applies the candidate filter to incoming candidates if requested', () => {
+                    const filter = (c: RTCIceCandidateInit) => c.candidate !== 'FOO';
+                    const events = [];
+                    const message = {'type': 'candidates', 'candidates': [candidate, null]};
+
+                    // Outgoing only
+                    let task = createTask(new WebRTCTaskBuilder().withCandidateFilter(filter));
+                    task.on('candidates', (event) => { events.push(event.data); });
+                    task.onTaskMessage(message);
+
+                    // Incoming as well
+                    task = createTask(new WebRTCTaskBuilder().withCandidateFilter(filter, true));
+                    task.on('candidates', (event) => { events.push(event.data); });
+                    task.onTaskMessage(message);
+                    task.onTaskMessage({'type': 'candidates', 'candidates': [candidate]});
+
+                    expect(events).toEqual([[candidate, null], [null]]);
+                });
+
+                it('rejects invalid options', () => {
+                    const builder = new WebRTCTaskBuilder();
+                    expect(() => builder.withCandidateBufferingWindow(-1)).toThrowError(
+                        'Candidate buffering window must be a non-negative integer');
+                    expect(() => builder.withMaxCandidateBatchSize(0)).toThrowError(
+                        'Maximum candidate batch size must be between 1 and 512');
+                    expect(() => builder.withMaxCandidateBatchSize(513)).toThrowError(
+                        'Maximum candidate batch size must be between 1 and 512');
+                });
+            });
+
+            describe('description transforms', function() {
+                const offer = {'type': 'offer', 'sdp': 'v=0\r\nb=AS:1000\r\n'};
+                const capBandwidth = (description: RTCSessionDescriptionInit) => {
+                    description.sdp = description.sdp.replace(/b=AS:\d+/, 'b=AS:100');
+                    return description;
+                };
+                const reject = (): RTCSessionDescriptionInit => {
+                    throw new Error('Codec not allowed');
+                };
+
+                it('transforms outgoing descriptions', () => {
+                    const task = createTask();
+                    task.addDescriptionTransform('outgoing', capBandwidth);
+                    const localOffer = {type: 'offer', sdp: offer.sdp} as RTCSessionDescriptionInit;
+                    task.sendOffer(localOffer);
+                    expect(fakeSignaling.sentMessages[0]['offer']['sdp'])
+                        .toBe('v=0\r\nb=AS:100\r\n');
+                    expect(localOffer.sdp).toBe(offer.sdp);
+                });
+
+                it('transforms incoming descriptions', () => {
+                    const task = createTask();
+                    const events = [];
+                    task.on('offer', (event) => { events.push(event.data); });
+                    task.addDescriptionTransform('incoming', capBandwidth);
+                    task.onTaskMessage({'type': 'offer', 'offer': offer});
+                    expect(events).toEqual([{type: 'offer', sdp: 'v=0\r\nb=AS:100\r\n'}]);
+                });
+
+                it('rejects outgoing descriptions', () => {
+                    const task = createTask();
+                    task.addDescriptionTransform('outgoing', reject);
+                    expect(() => task.sendAnswer({type: 'answer', sdp: 'v=0'}))
+                        .toThrowError('Outgoing answer rejected: Codec not allowed');
+                    expect(fakeSignaling.sentMessages).toEqual([]);
+                });
+
+                it('rejects incoming descriptions', () => {
+                    const task = createTask();
+                    const events = [];
+                    task.on(['offer', 'description-rejected'], (event) => { events.push(event); });
+                    task.addDescriptionTransform('incoming', reject);
+                    task.onTaskMessage({'type': 'offer', 'offer': offer});
+                    expect(events).toEqual([{
+                        type: 'description-rejected',
+                        data: {type: 'offer', reason: 'Codec not allowed'},
+                    }]);
+                });
+
+                it('rejects invalid transformed incoming descriptions', () => {
+                    const task = createTask();
+                    const events = [];
+                    task.on(['offer', 'description-rejected'], (event) => { events.push(event); });
+                    task.addDescriptionTransform('incoming', (description) => {
+                        return {type: description.type} as RTCSessionDescriptionInit;
+                    });
+                    task.onTaskMessage({'type': 'offer', 'offer': offer});
+                    expect(events).toEqual([{
+                        type: 'description-rejected',
+                        data: {
+                            type: 'offer',
+                            reason: 'Transformed description is invalid: ' +
+                                'offer.sdp: must be a string',
+                        },
+                    }]);
+                });
+
+                it('rejects invalid transformed outgoing descriptions', () => {
+                    const task = createTask();
+                    task.addDescriptionTransform('outgoing', () => null);
+                    expect(() => task.sendOffer({type: 'offer', sdp: 'v=0'})).toThrowError(
+                        'Outgoing offer rejected: Transformed description is invalid: ' +
+                        'offer: must be an object');
+                    expect(fakeSignaling.sentMessages).toEqual([]);
+                });
+
+                it('removes transforms', () => {
+                    const task = createTask();
+                    task.addDescriptionTransform('outgoing', reject);
+                    task.removeDescriptionTransform('outgoing', reject);
+                    task.sendAnswer({type: 'answer', sdp: 'v=0'});
+                    expect(fakeSignaling.sentMessages.length).toBe(1);
+                });
+
+                it('rejects unknown directions', () => {
+                    const task = createTask();
+                    expect(() => task.addDescriptionTransform('nope' as any, reject))
+                        .toThrowError('Unknown description direction: nope');
+                });
+            });
+
+            describe('handover lifecycle', function() {
+                const handler = {
+                    maxMessageSize: 65536,
+                    close: () => undefined,
+                    send: () => undefined,
+                };
+                let events: Array<string>;
+
+                const startHandover = (task: WebRTCTask): SignalingTransportLink => {
+                    const link = task.getTransportLink() as SignalingTransportLink;
+                    task.handover(handler);
+                    return link;
+                };
+
+                const createHandoverTask = (): WebRTCTask => {
+                    const task = createTask();
+                    events = [];
+                    task.on(['handover:local', 'handover:peer', 'handover:complete'], (event) => {
+                        events.push(event.type);
+                    });
+                    return task;
+                };
+
+                it('emits events and resolves once handover completed', async () => {
+                    const task = createHandoverTask();
+                    const complete = task.whenHandoverComplete();
+                    startHandover(task);
+                    expect(events).toEqual(['handover:local']);
+                    task.onTaskMessage({'type': 'handover'});
+                    expect(events).toEqual(['handover:local', 'handover:peer', 'handover:complete']);
+                    await complete;
+                    await task.whenHandoverComplete();
+                });
+
+                it('emits events if the peer initiated handover first', () => {
+                    const task = createHandoverTask();
+                    task.onTaskMessage({'type': 'handover'});
+                    startHandover(task);
+                    expect(events).toEqual(['handover:peer', 'handover:local', 'handover:complete']);
+                });
+
+                it('rejects if the transport closes before handover completed', async () => {
+                    const task = createHandoverTask();
+                    const complete = task.whenHandoverComplete();
+                    startHandover(task).closed();
+                    let error: Error | null = null;
+                    await complete.catch((e) => error = e);
+                    expect(error.message).toBe(
+                        'Signalling transport closed before handover completed');
+                });
+
+                it('rejects if the task closes before handover completed', async () => {
+                    const task = createHandoverTask();
+                    const complete = task.whenHandoverComplete();
+                    task.close(saltyrtcClient.CloseCode.ClosingNormal);
+                    let error: Error | null = null;
+                    await complete.catch((e) => error = e);
+                    expect(error.message).toBe('Task closed before handover completed');
+                    error = null;
+                    await task.whenHandoverComplete().catch((e) => error = e);
+                    expect(error.message).toBe('Task closed before handover completed');
+                });
+
+                it('emits transport errors', () => {
+                    const task = createHandoverTask();
+                    const errors: Array<saltyrtc.tasks.webrtc.SignalingTransportError> = [];
+                    task.on('transport-error', (event) => { errors.push(event.data); });
+                    startHandover(task).closed();
+                    expect(errors.length).toBe(1);
+                    expect(errors[0].kind).toBe('remote-closed');
+                });
+
+                it('does not reject once handover completed', async () => {
+                    const task = createHandoverTask();
+                    startHandover(task);
+                    task.onTaskMessage({'type': 'handover'});
+                    task.close(saltyrtcClient.CloseCode.ClosingNormal);
+                    await task.whenHandoverComplete();
+                });
+
+                it('provides statistics of the signalling transport', () => {
+                    const task = createHandoverTask();
+                    expect(task.getStats()).toEqual({
+                        messagesSent: 0,
+                        chunksSent: 0,
+                        bytesSent: 0,
+                        messagesReceived: 0,
+                        chunksReceived: 0,
+                        bytesReceived: 0,
+                        queuedMessages: 0,
+                        decryptFailures: 0,
+                        chunkErrors: 0,
+                        handoverTime: null,
+                    });
+
+                    // Complete handover and send a message via the transport
+                    const before = Date.now();
+                    startHandover(task);
+                    task.onTaskMessage({'type': 'handover'});
+                    task.sendSignalingMessage(Uint8Array.of(1, 2, 3));
+                    const stats = task.getStats();
+                    expect(stats.messagesSent).toBe(1);
+                    expect(stats.chunksSent).toBe(1);
+                    expect(stats.bytesSent).toBeGreaterThan(3);
+                    expect(stats.handoverTime >= before).toBe(true);
+                    expect(stats.handoverTime <= Date.now()).toBe(true);
+
+                    // Counters remain available once closed
+                    task.close(saltyrtcClient.CloseCode.ClosingNormal);
+                    expect(task.getStats().messagesSent).toBe(1);
+                });
+
+                describe('timeout', function() {
+                    let failures: Array<string>;
+
+                    const createTimeoutTask = (
+                        peerData: Object = {
+                            'exclude': [], 'handover': true, 'handover_abort': true,
+                        },
+                    ): WebRTCTask => {
+                        const task = createTask(
+                            new WebRTCTaskBuilder().withHandoverTimeout(1000), peerData);
+                        failures = [];
+                        task.on('handover-failed', (event) => { failures.push(event.data); });
+                        return task;
+                    };
+
+                    beforeEach(() => {
+                        jasmine.clock().install();
+                    });
+
+                    afterEach(() => {
+                        jasmine.clock().uninstall();
+                    });
+
+                    it('abandons handover on expiry', () => {
+                        const task = createTimeoutTask();
+                        let closed = false;
+                        task.getTransportLink();
+                        task.handover({...handler, close: () => { closed = true; }});
+                        expect(fakeSignaling.handoverState.local).toBe(true);
+
+                        jasmine.clock().tick(999);
+                        expect(failures).toEqual([]);
+                        jasmine.clock().tick(1);
+                        expect(failures).toEqual(['Handover did not complete within 1000 ms']);
+                        expect(fakeSignaling.handoverState.any).toBe(false);
+
+                        // The peer is notified and the data channel remains open
+                        expect(fakeSignaling.sentMessages.map((message) => message.type))
+                            .toEqual(['handover', 'handover-abort']);
+                        expect(closed).toBe(false);
+                    });
+
+                    it('does not notify a peer that does not support handover-abort', () => {
+                        const task = createTimeoutTask({'exclude': [], 'handover': true});
+                        task.getTransportLink();
+                        task.handover(handler);
+
+                        jasmine.clock().tick(1000);
+                        expect(failures).toEqual(['Handover did not complete within 1000 ms']);
+                        expect(fakeSignaling.handoverState.any).toBe(false);
+                        expect(fakeSignaling.sentMessages.map((message) => message.type))
+                            .toEqual(['handover']);
+                    });
+
+                    it('announces support for handover-abort', () => {
+                        expect(new WebRTCTaskBuilder().build().getData()['handover_abort'])
+                            .toBe(true);
+                    });
+
+                    it('closes the transport once the peer abandoned handover', () => {
+                        const task = createTimeoutTask();
+                        let closed = false;
+                        task.getTransportLink();
+                        task.handover({...handler, close: () => { closed = true; }});
+                        task.onTaskMessage({'type': 'handover-abort'});
+                        expect(failures).toEqual(['Handover has been abandoned by the peer']);
+                        expect(fakeSignaling.handoverState.any).toBe(false);
+                        expect(closed).toBe(true);
+                        expect(task['transport']).toBeNull();
+
+                        // The timer has been stopped
+                        jasmine.clock().tick(1000);
+                        expect(failures.length).toBe(1);
+                    });
+
+                    it('falls back on both peers if only one timer expires', () => {
+                        // Peer A uses a timeout, peer B doesn't
+                        const signalings = [new FakePeerSignaling(), new FakePeerSignaling()];
+                        const [a, b] = signalings;
+                        a.remote = b;
+                        b.remote = a;
+                        a.task = new WebRTCTaskBuilder().withHandoverTimeout(1000).build();
+                        b.task = new WebRTCTaskBuilder().build();
+                        const failed: Array<string> = [];
+                        const errors: Array<string> = [];
+                        for (const signaling of signalings) {
+                            signaling.task.init(
+                                signaling as any as saltyrtc.Signaling,
+                                {'exclude': [], 'handover': true, 'handover_abort': true});
+                            signaling.task.on('handover-failed', () => {
+                                failed.push(signaling.role);
+                            });
+                            signaling.task.on('transport-error', (event) => {
+                                errors.push(event.data.kind);
+                            });
+                        }
+                        b.role = 'responder';
+
+                        // Connect the data channels
+                        const links = [a.task.getTransportLink(), b.task.getTransportLink()];
+                        const handlers = links.map((link, i) => ({
+                            ...handler,
+                            send: (chunk: Uint8Array) => links[1 - i].receive(chunk.slice()),
+                            close: () => links[1 - i].closed(),
+                        }));
+
+                        // Both peers request handover but the handover messages are
+                        // still in flight when A's timer expires
+                        a.task.handover(handlers[0]);
+                        b.task.handover(handlers[1]);
+                        jasmine.clock().tick(1000);
+                        expect(failed).toEqual(['initiator']);
+                        expect(a.sentMessages.map((message) => message.type))
+                            .toEqual(['handover', 'handover-abort']);
+
+                        // B receives A's handover and the handover-abort message queued on
+                        // the data channel, so both peers fall back
+                        b.deliver();
+                        expect(failed).toEqual(['initiator', 'responder']);
+                        expect(errors).toEqual([]);
+                        for (const signaling of signalings) {
+                            expect(signaling.handoverState.any).toBe(false);
+                            expect(signaling.state).toBe('task');
+                            expect(signaling.task['transport']).toBeNull();
+                        }
+
+                        // B's late handover message is being ignored and signalling
+                        // continues via the server in both directions
+                        a.deliver();
+                        a.task.sendCandidates([null]);
+                        b.task.sendCandidates([null]);
+                        const candidates: Array<string> = [];
+                        for (const signaling of signalings) {
+                            signaling.task.on('candidates', () => {
+                                candidates.push(signaling.role);
+                            });
+                            signaling.deliver();
+                        }
+                        expect(candidates).toEqual(['initiator', 'responder']);
+                        expect(a.resetCloseCodes).toEqual([]);
+                        expect(b.resetCloseCodes).toEqual([]);
+                    });
+
+                    it('rejects the handover promise on expiry', async () => {
+                        const task = createTimeoutTask();
+                        const complete = task.whenHandoverComplete();
+                        task.onTaskMessage({'type': 'handover'});
+                        jasmine.clock().tick(1000);
+                        let error: Error | null = null;
+                        await complete.catch((e) => error = e);
+                        expect(error.message).toBe('Handover did not complete within 1000 ms');
+                    });
+
+                    it('ignores a late handover request of the peer', () => {
+                        const task = createTimeoutTask();
+                        task.getTransportLink();
+                        jasmine.clock().tick(1000);
+                        task.onTaskMessage({'type': 'handover'});
+                        expect(fakeSignaling.handoverState.peer).toBe(false);
+                        expect(() => task.handover(handler))
+                            .toThrowError('Handover has been abandoned');
+                    });
+
+                    it('does not expire once handover completed', () => {
+                        const task = createTimeoutTask();
+                        startHandover(task);
+                        task.onTaskMessage({'type': 'handover'});
+                        jasmine.clock().tick(1000);
+                        expect(failures).toEqual([]);
+                        expect(fakeSignaling.handoverState.both).toBe(true);
+                    });
+
+                    it('rejects invalid timeouts', () => {
+                        expect(() => new WebRTCTaskBuilder().withHandoverTimeout(-1))
+                            .toThrowError('Handover timeout must be a non-negative integer');
+                    });
+                });
+
+                it('rejects if handover has not been negotiated', async () => {
+                    const task = createTask(undefined, {'exclude': [], 'handover': false});
+                    let error: Error | null = null;
+                    await task.whenHandoverComplete().catch((e) => error = e);
+                    expect(error.message).toBe('Handover has not been negotiated');
+                });
+            });
+
+            describe('channel allocation', function() {
+                it('allocates free data channel ids', () => {
+                    // Signalling channel id is 1
+                    const task = createTask(undefined, {'exclude': [0, 2], 'handover': true});
+                    const first = task.allocateChannel();
+                    const second = task.allocateChannel({replayProtection: 'strict'});
+                    expect(first.id).toBe(3);
+                    expect(first.crypto['channelId']).toBe(3);
+                    expect(second.id).toBe(4);
+                    expect(second.crypto['channelId']).toBe(4);
+                });
+
+                it('reuses released data channel ids', () => {
+                    const task = createTask();
+                    const channel = task.allocateChannel();
+                    expect(task.allocateChannel().id).toBe(channel.id + 1);
+                    task.releaseChannel(channel.id);
+                    expect(task.allocateChannel().id).toBe(channel.id);
+                });
+
+                describe('secure data channels', function() {
+                    const createDataChannel = (
+                        id: number | null,
+                    ): saltyrtc.tasks.webrtc.DataChannelLike => {
+                        const dc = {
+                            id: id,
+                            label: 'fake',
+                            binaryType: 'blob',
+                            onmessage: null,
+                            onclose: null,
+                            onerror: null,
+                            send: () => undefined,
+                            close: () => dc.onclose({} as Event),
+                        } as saltyrtc.tasks.webrtc.DataChannelLike;
+                        return dc;
+                    };
+
+                    it('rejects data channels without an id', () => {
+                        const task = createTask();
+                        expect(() => task.createSecureDataChannel(createDataChannel(null)))
+                            .toThrowError(
+                                'Data channel has no id yet, wait until it has been opened');
+                    });
+
+                    it('releases the id once the data channel has been closed', () => {
+                        const task = createTask();
+                        const dc = createDataChannel(5);
+                        task.createSecureDataChannel(dc);
+                        expect(() => task.createCryptoContext(5)).toThrowError(
+                            'A crypto context for data channel id 5 already exists');
+                        dc.close();
+                        task.createSecureDataChannel(createDataChannel(5));
+                    });
+
+                    it('does not release an id that has been allocated again', () => {
+                        const task = createTask();
+                        const dc = createDataChannel(5);
+                        task.createSecureDataChannel(dc);
+                        task.releaseChannel(5);
+                        const crypto = task.createCryptoContext(5);
+                        dc.close();
+                        expect(task['cryptoContexts'].get(5)).toBe(crypto);
+                    });
+                });
+
+                it('skips ids of live crypto contexts', () => {
+                    const task = createTask();
+                    task.createCryptoContext(1);
+                    expect(task.allocateChannel().id).toBe(2);
+                });
+
+                it('uses the signalling channel id if handover is disabled', () => {
+                    const task = createTask(undefined, {'exclude': [], 'handover': false});
+                    expect(task.allocateChannel().id).toBe(0);
+                });
+
+                it('refuses to create duplicate crypto contexts', () => {
+                    const task = createTask();
+                    task.createCryptoContext(42);
+                    expect(() => task.createCryptoContext(42)).toThrowError(
+                        'A crypto context for data channel id 42 already exists');
+                    task.releaseChannel(42);
+                    task.createCryptoContext(42);
+                });
+
+                it('refuses to create a crypto context for the signalling channel', () => {
+                    const task = createTask();
+                    expect(() => task.createCryptoContext(0)).toThrowError(
+                        'Data channel id 0 is reserved for the signalling channel');
+                });
+            });
+
+            describe('key rotation', function() {
+                const peerData = {'exclude': [], 'handover': true, 'key_rotation': true};
+                const noKeyRotation = {'exclude': [], 'handover': true};
+                let events: Array<saltyrtc.SaltyRTCEvent>;
+
+                const createKeyRotationTask = (
+                    builder: WebRTCTaskBuilder = new WebRTCTaskBuilder().withKeyRotation(1000),
+                    data: Object = peerData,
+                ): WebRTCTask => {
+                    const task = createTask(builder, data);
+                    events = [];
+                    task.on('protocol-error', (event) => { events.push(event); });
+                    return task;
+                };
+
+                it('announces key rotation support only if enabled', () => {
+                    expect(new WebRTCTaskBuilder().build().getData()['key_rotation']).toBe(false);
+                    for (const [maxMessages, maxAgeMs] of [[1, 0], [0, 1]]) {
+                        const task = new WebRTCTaskBuilder()
+                            .withKeyRotation(maxMessages, maxAgeMs)
+                            .build();
+                        expect(task.getData()['key_rotation']).toBe(true);
+                    }
+                });
+
+                it('does not rotate keys if disabled locally', () => {
+                    const task = createKeyRotationTask(new WebRTCTaskBuilder());
+                    const crypto = task.createCryptoContext(5);
+                    expect(() => crypto.rotateKey()).toThrowError(
+                        'Key rotation has not been negotiated');
+                    task.onTaskMessage({type: 'rekey', id: 5, epoch: 1, salt: new Uint8Array(24)});
+                    expect(events.length).toBe(1);
+                });
+
+                it('exchanges rekey messages encoded by the signalling', () => {
+                    // Rotate the key of the sender
+                    const sender = createKeyRotationTask();
+                    const senderCrypto = sender.createCryptoContext(5);
+                    senderCrypto.rotateKey();
+                    const rekey = fakeSignaling.sentMessages[0];
+
+                    // Encode and decode like the signalling does
+                    const options = {codec: msgpack.createCodec({binarraybuffer: true})};
+                    const decoded = msgpack.decode(msgpack.encode(rekey, options), options);
+                    expect(decoded['salt'] instanceof ArrayBuffer).toBe(true);
+
+                    // Receiver accepts and acknowledges the new key
+                    const receiver = createKeyRotationTask();
+                    const receiverCrypto = receiver.createCryptoContext(5);
+                    fakeSignaling.sentMessages = [];
+                    receiver.onTaskMessage(decoded);
+                    expect(events).toEqual([]);
+                    expect(fakeSignaling.sentMessages)
+                        .toEqual([{type: 'rekey-ack', id: 5, epoch: 1}]);
+
+                    // Messages encrypted with the new key can be decrypted
+                    sender.onTaskMessage(fakeSignaling.sentMessages[0]);
+                    const data = Uint8Array.of(1, 2, 3);
+                    expect(receiverCrypto.decrypt(senderCrypto.encrypt(data))).toEqual(data);
+                });
+
+                it('sends rekey messages once the limit has been reached', () => {
+                    const task = createKeyRotationTask(new WebRTCTaskBuilder().withKeyRotation(1));
+                    const crypto = task.createCryptoContext(5);
+                    crypto.encrypt(new Uint8Array(0));
+                    expect(fakeSignaling.sentMessages).toEqual([]);
+                    crypto.encrypt(new Uint8Array(0));
+                    expect(fakeSignaling.sentMessages.length).toBe(1);
+                    expect(fakeSignaling.sentMessages[0]['type']).toBe('rekey');
+                    expect(fakeSignaling.sentMessages[0]['id']).toBe(5);
+                    expect(fakeSignaling.sentMessages[0]['epoch']).toBe(1);
+                });
+
+                it('does not rotate keys if the peer does not support it', () => {
+                    const task = createKeyRotationTask(
+                        new WebRTCTaskBuilder().withKeyRotation(1), noKeyRotation);
+                    const crypto = task.createCryptoContext(5);
+                    crypto.encrypt(new Uint8Array(0));
+                    crypto.encrypt(new Uint8Array(0));
+                    expect(fakeSignaling.sentMessages).toEqual([]);
+                    expect(() => crypto.rotateKey()).toThrowError(
+                        'Key rotation has not been negotiated');
+                });
+
+                it('acknowledges rekey messages', () => {
+                    const task = createKeyRotationTask();
+                    task.createCryptoContext(5);
+                    task.onTaskMessage({type: 'rekey', id: 5, epoch: 1, salt: new Uint8Array(24)});
+                    expect(fakeSignaling.sentMessages)
+                        .toEqual([{type: 'rekey-ack', id: 5, epoch: 1}]);
+                    expect(events).toEqual([]);
+                });
+
+                it('rejects rekey messages for unknown data channel ids', () => {
+                    const task = createKeyRotationTask();
+                    task.onTaskMessage({type: 'rekey', id: 5, epoch: 1, salt: new Uint8Array(24)});
+                    expect(fakeSignaling.sentMessages)
+                        .toEqual([{type: 'rekey-reject', id: 5, epoch: 1}]);
+                    expect(events).toEqual([]);
+                });
+
+                it('rotates keys again once the peer rejected a rotation', () => {
+                    const task = createKeyRotationTask(new WebRTCTaskBuilder().withKeyRotation(1));
+                    const crypto = task.createCryptoContext(5);
+                    crypto.encrypt(new Uint8Array(0));
+                    crypto.encrypt(new Uint8Array(0));
+                    expect(fakeSignaling.sentMessages.length).toBe(1);
+                    task.onTaskMessage({type: 'rekey-reject', id: 5, epoch: 1});
+                    expect(events).toEqual([]);
+
+                    // The limit must be reached anew
+                    crypto.encrypt(new Uint8Array(0));
+                    expect(fakeSignaling.sentMessages.length).toBe(1);
+                    crypto.encrypt(new Uint8Array(0));
+                    expect(fakeSignaling.sentMessages.length).toBe(2);
+                    expect(fakeSignaling.sentMessages[1]['type']).toBe('rekey');
+                    expect(fakeSignaling.sentMessages[1]['epoch']).toBe(1);
+                });
+
+                it('treats unexpected rejections as protocol error', () => {
+                    const task = createKeyRotationTask();
+                    task.createCryptoContext(5);
+                    task.onTaskMessage({type: 'rekey-reject', id: 5, epoch: 1});
+                    expect(events).toEqual([{type: 'protocol-error', data: {
+                        type: 'rekey-reject',
+                        reason: 'Unexpected key rotation rejection for epoch 1',
+                    }}]);
+                });
+
+                it('treats unexpected epochs as protocol error', () => {
+                    const task = createKeyRotationTask();
+                    task.createCryptoContext(5);
+                    task.onTaskMessage({type: 'rekey-ack', id: 5, epoch: 1});
+                    expect(events).toEqual([{type: 'protocol-error', data: {
+                        type: 'rekey-ack',
+                        reason: 'Unexpected key rotation acknowledgement for epoch 1',
+                    }}]);
+                });
+
+                it('treats key rotation messages as protocol error if not negotiated', () => {
+                    const task = createKeyRotationTask(undefined, noKeyRotation);
+                    task.createCryptoContext(5);
+                    task.onTaskMessage({type: 'rekey', id: 5, epoch: 1, salt: new Uint8Array(24)});
+                    expect(events).toEqual([{type: 'protocol-error', data: {
+                        type: 'rekey',
+                        reason: 'Key rotation has not been negotiated',
+                    }}]);
+                });
+
+                it('processes all messages of worker crypto contexts in the worker', async () => {
+                    const keys: Array<Uint8Array> = [];
+                    const worker = {
+                        encrypt: (data, nonce, key) => {
+                            keys.push(key);
+                            return Promise.resolve(data);
+                        },
+                    } as saltyrtc.tasks.webrtc.CryptoWorker;
+                    await createKeyRotationTask()
+                        .createWorkerCryptoContext(5, worker)
+                        .encrypt(Uint8Array.of(1, 2, 3));
+                    expect(keys.length).toBe(1);
+                    expect(keys[0].byteLength).toBe(32);
+                    expect(fakeSignaling.sentMessages).toEqual([]);
+                });
+
+                it('refuses worker crypto contexts unless key rotation is negotiated', () => {
+                    const worker = {} as saltyrtc.tasks.webrtc.CryptoWorker;
+                    const task = createTask();
+                    expect(() => task.createWorkerCryptoContext(5, worker)).toThrowError(
+                        'Key rotation has not been negotiated, crypto workers require it');
+
+                    // The id has not been reserved
+                    expect(() => task.createCryptoContext(5)).not.toThrow();
+                });
+
+                it('rejects invalid limits', () => {
+                    expect(() => new WebRTCTaskBuilder().withKeyRotation(-1)).toThrowError(
+                        'Key rotation limits must be non-negative integers');
+                    expect(() => new WebRTCTaskBuilder().withKeyRotation(0, 0.5)).toThrowError(
+                        'Key rotation limits must be non-negative integers');
+                });
+            });
+
+            describe('csn exhaustion', function() {
+                it('emits a warning event', () => {
+                    const task = createTask(new WebRTCTaskBuilder().withCsnWarningThreshold(1));
+                    const events = [];
+                    task.on('csn-warning', (event) => { events.push(event.data); });
+                    const crypto = task.createCryptoContext(5);
+                    const csn = crypto['csnPair'].ours;
+                    csn['overflow'] = 0xFFFF;
+                    csn['sequenceNumber'] = 0xFFFFFFFF - 3;
+                    crypto.encrypt(new Uint8Array(0));
+                    expect(events).toEqual([]);
+                    crypto.encrypt(new Uint8Array(0));
+                    expect(events).toEqual([{channelId: 5, remaining: 1}]);
+                });
+
+                it('rejects an invalid threshold', () => {
+                    expect(() => new WebRTCTaskBuilder().withCsnWarningThreshold(-1)).toThrowError(
+                        'CSN warning threshold must be a non-negative integer');
+                });
+            });
+
+            describe('perfect negotiation', function() {
+                const offer = {'type': 'offer', 'sdp': 'remote-offer'};
+                const answer = {'type': 'answer', 'sdp': 'remote-answer'};
+                let events: Array<string>;
+
+                const createPerfectTask = (): WebRTCTask => {
+                    const task = createTask(new WebRTCTaskBuilder().withPerfectNegotiation(true));
+                    events = [];
+                    task.on(['offer', 'answer', 'rollback'], (event) => { events.push(event.type); });
+                    return task;
+                };
+
+                it('is disabled by default', () => {
+                    const task = createTask();
+                    expect(task.perfectNegotiation).toBe(false);
+                    task.on('offer', () => { events.push('offer'); });
+                    events = [];
+                    task.sendOffer({type: 'offer', sdp: 'local-offer'});
+                    task.onTaskMessage({'type': 'offer', 'offer': offer});
+                    expect(events).toEqual(['offer']);
+                });
+
+                it('derives politeness from the role', () => {
+                    expect(createPerfectTask().polite).toBe(false);
+                    fakeSignaling.role = 'responder';
+                    expect(createPerfectTask().polite).toBe(true);
+                });
+
+                it('forwards offers without collision', () => {
+                    const task = createPerfectTask();
+                    task.onTaskMessage({'type': 'offer', 'offer': offer});
+                    expect(events).toEqual(['offer']);
+                });
+
+                it('ignores colliding offers if impolite', () => {
+                    const task = createPerfectTask();
+                    task.sendOffer({type: 'offer', sdp: 'local-offer'});
+                    task.onTaskMessage({'type': 'offer', 'offer': offer});
+                    expect(events).toEqual([]);
+                });
+
+                it('rolls back on colliding offers if polite', () => {
+                    fakeSignaling.role = 'responder';
+                    const task = createPerfectTask();
+                    task.sendOffer({type: 'offer', sdp: 'local-offer'});
+                    task.onTaskMessage({'type': 'offer', 'offer': offer});
+                    expect(events).toEqual(['rollback', 'offer']);
+                });
+
+                it('does not detect a collision if the local offer could not be sent', () => {
+                    const task = createPerfectTask();
+                    spyOn(fakeSignaling, 'sendTaskMessage').and.callFake(() => {
+                        throw new saltyrtcClient.SignalingError(
+                            saltyrtcClient.CloseCode.ProtocolError, 'nope');
+                    });
+                    task.sendOffer({type: 'offer', sdp: 'local-offer'});
+                    task.onTaskMessage({'type': 'offer', 'offer': offer});
+                    expect(events).toEqual(['offer']);
+                });
+
+                it('does not detect a collision once the answer arrived', () => {
+                    const task = createPerfectTask();
+                    task.sendOffer({type: 'offer', sdp: 'local-offer'});
+                    task.onTaskMessage({'type': 'answer', 'answer': answer});
+                    task.onTaskMessage({'type': 'offer', 'offer': offer});
+                    expect(events).toEqual(['answer', 'offer']);
+                });
+            });
+        });
+    });
+}
@@ -8,7 +8,10 @@
 /// <reference path="jasmine.d.ts" />
 import {DataChannelNonce} from "../src/nonce";
 import {DataChannelCryptoContext} from "../src/crypto";
-import {SignalingTransport, SignalingTransportLink} from "../src/transport";
+import {WebRTCTask} from "../src/task";
+import {
+    ChunkingMode, QueueLimits, SignalingTransport, SignalingTransportError, SignalingTransportLink,
+} from "../src/transport";
 
 /**
  * Fakes the signalling and simulates a state where the task has kicked in and
@@ -47,12 +50,22 @@ class FakeSignaling {
 
 class FakeTask {
     public closed: boolean = false;
+    public transportClosed: boolean = false;
+    public errors: Array<SignalingTransportError> = [];
     public transport: SignalingTransport;
 
     public close() {
         this.transport.close();
         this.closed = true;
     }
+
+    public onTransportClosed() {
+        this.transportClosed = true;
+    }
+
+    public onTransportError(error: SignalingTransportError) {
+        this.errors.push(error);
+    }
 }
 
 export default () => {
@@ -84,17 +97,23 @@ export default () => {
             });
 
             const createTransport = (
-                handler: saltyrtc.tasks.webrtc.SignalingTransportHandler
+                handler: saltyrtc.tasks.webrtc.SignalingTransportHandler,
+                chunkingMode: ChunkingMode = 'unreliable-unordered',
+                queueLimits?: QueueLimits,
+                maxMessageSize?: number,
             ): [SignalingTransportLink, SignalingTransport] => {
                 const link = new SignalingTransportLink(ID, 'fake-protocol');
                 const transport = new SignalingTransport(
                     link,
                     handler,
-                    fakeTask as unknown as saltyrtc.tasks.webrtc.WebRTCTask,
+                    fakeTask as unknown as WebRTCTask,
                     fakeSignaling as any as saltyrtc.Signaling,
                     context,
                     'debug',
-                    20
+                    20,
+                    chunkingMode,
+                    queueLimits,
+                    maxMessageSize,
                 );
                 fakeTask.transport = transport;
                 return [link, transport];
@@ -111,6 +130,8 @@ export default () => {
                 // Close
                 link.closed();
                 expect(fakeSignaling.state).toBe('closed');
+                expect(fakeTask.transportClosed).toBe(true);
+                expect(fakeTask.errors.map((error) => error.kind)).toEqual(['remote-closed']);
             });
 
             it('sends a message encrypted and in chunks', () => {
@@ -128,14 +149,120 @@ export default () => {
 
                 // Compare chunks
                 expect(actualChunks.slice(12)).toEqual(CHUNKS);
+
+                // Check counters
+                expect(transport.counters.messagesSent).toBe(1);
+                expect(transport.counters.chunksSent).toBe(15);
+                expect(transport.counters.bytesSent).toBe(15 * MAX_MESSAGE_SIZE);
+            });
+
+            it('pauses and resumes sending depending on the buffered amount', () => {
+                const actualChunks = [];
+                const handler = {
+                    maxMessageSize: MAX_MESSAGE_SIZE,
+                    bufferedAmount: 0,
+                    send: (chunk: Uint8Array) => {
+                        actualChunks.push(chunk.slice());
+                        // Reach the high water mark after the 14th chunk
+                        if (actualChunks.length === 14) {
+                            handler.bufferedAmount = SignalingTransport.HIGH_WATER_MARK;
+                        }
+                    },
+                    close: () => {},
+                };
+                const [link, transport] = createTransport(handler);
+
+                // Send two messages, sending pauses once the high water mark
+                // has been reached
+                transport.send(MESSAGE);
+                transport.send(MESSAGE);
+                expect(actualChunks.length).toBe(14);
+                expect(link.bufferedAmountLowThreshold).toBe(SignalingTransport.LOW_WATER_MARK);
+
+                // Resume
+                handler.bufferedAmount = SignalingTransport.LOW_WATER_MARK;
+                link.bufferedAmountLow();
+                expect(actualChunks.length).toBe(30);
+                expect(actualChunks.slice(12, 15)).toEqual(CHUNKS);
+                expect(actualChunks.slice(27).map((chunk) => chunk.slice(9))).toEqual(
+                    CHUNKS.map((chunk) => chunk.slice(9)));
+            });
+
+            it('reuses the send buffer unless a message is pending', () => {
+                const handler = {
+                    maxMessageSize: MAX_MESSAGE_SIZE,
+                    bufferedAmount: 0,
+                    send: () => {},
+                    close: () => {},
+                };
+                const encryptInto = spyOn(context, 'encryptInto').and.callThrough();
+                // noinspection JSUnusedLocalSymbols
+                const [_, transport] = createTransport(handler);
+
+                // Both messages are being encrypted into the send buffer
+                transport.send(MESSAGE);
+                transport.send(MESSAGE);
+                const buffer = encryptInto.calls.argsFor(0)[1];
+                expect(encryptInto.calls.argsFor(1)[1]).toBe(buffer);
+
+                // A new buffer is required while a message is pending
+                handler.bufferedAmount = SignalingTransport.HIGH_WATER_MARK;
+                transport.send(MESSAGE);
+                transport.send(MESSAGE);
+                expect(encryptInto.calls.argsFor(2)[1]).toBe(buffer);
+                expect(encryptInto.calls.argsFor(3)[1]).not.toBe(buffer);
+            });
+
+            it('discards pending messages on close', () => {
+                const actualChunks = [];
+                const handler = {
+                    maxMessageSize: MAX_MESSAGE_SIZE,
+                    bufferedAmount: SignalingTransport.HIGH_WATER_MARK,
+                    send: (chunk: Uint8Array) => { actualChunks.push(chunk.slice()); },
+                    close: () => {},
+                };
+                const [link, transport] = createTransport(handler);
+                const warn = spyOn(transport['log'], 'warn');
+                transport.send(MESSAGE);
+                transport.send(MESSAGE);
+                transport.close();
+                expect(warn).toHaveBeenCalledWith(
+                    transport['logTag'], 'Discarding 2 pending outgoing message(s)');
+                handler.bufferedAmount = 0;
+                link.bufferedAmountLow();
+                expect(actualChunks.length).toBe(0);
+            });
+
+            it('fails once the send queue limit has been exceeded', () => {
+                const handler = {
+                    maxMessageSize: MAX_MESSAGE_SIZE,
+                    bufferedAmount: SignalingTransport.HIGH_WATER_MARK,
+                    send: () => {},
+                    close: () => {},
+                };
+                const [_, transport] = createTransport(handler);
+                const limit = SignalingTransport.MAX_SEND_QUEUE_BYTES;
+                SignalingTransport.MAX_SEND_QUEUE_BYTES = 2 * (MESSAGE.byteLength + 40);
+                try {
+                    transport.send(MESSAGE);
+                    transport.send(MESSAGE);
+                    expect(fakeTask.errors).toEqual([]);
+                    transport.send(MESSAGE);
+                } finally {
+                    SignalingTransport.MAX_SEND_QUEUE_BYTES = limit;
+                }
+                expect(fakeTask.closed).toBe(true);
+                expect(fakeTask.errors.length).toBe(1);
+                expect(fakeTask.errors[0].kind).toBe('limit-exceeded');
+                expect(fakeTask.errors[0].message).toBe('Send queue exceeds 92 bytes');
+                expect(transport.counters.messagesSent).toBe(2);
             });
 
             it('binds, reassembles and decrypts a message', () => {
                 const handler = {
                     maxMessageSize: MAX_MESSAGE_SIZE,
                 } as saltyrtc.tasks.webrtc.SignalingTransportHandler;
-                // noinspection JSUnusedLocalSymbols
-                const [link, _] = createTransport(handler);
+                const [link, transport] = createTransport(handler);
 
                 // Before nonce and chunks
                 expect(fakeSignaling.messages.length).toBe(0);
@@ -164,6 +291,96 @@ export default () => {
                 link.receive(CHUNKS[2]);
                 expect(fakeSignaling.messages.length).toBe(1);
                 expect(fakeSignaling.messages[0]).toEqual(MESSAGE);
+
+                // Check counters
+                expect(transport.counters.messagesReceived).toBe(1);
+                expect(transport.counters.chunksReceived).toBe(15);
+                expect(transport.counters.bytesReceived).toBe(15 * MAX_MESSAGE_SIZE);
+                expect(transport.counters.queuedMessages).toBe(0);
+            });
+
+            it('sends a message encrypted and in reliable/ordered chunks', () => {
+                const actualChunks = [];
+                // @ts-ignore
+                const handler = {
+                    maxMessageSize: MAX_MESSAGE_SIZE,
+                    send: (chunk: Uint8Array) => actualChunks.push(chunk.slice()),
+                } as saltyrtc.tasks.webrtc.SignalingTransportHandler;
+                // noinspection JSUnusedLocalSymbols
+                const [_, transport] = createTransport(handler, 'reliable-ordered');
+
+                // Send message
+                transport.send(MESSAGE);
+
+                // Nonce (24 bytes) and message (6 bytes) in chunks with a
+                // payload of 10 bytes each
+                expect(actualChunks.length).toBe(3);
+                expect(actualChunks[0][0]).toBe(6);
+                expect(actualChunks[1][0]).toBe(6);
+                expect(actualChunks[2][0]).toBe(7);
+                expect(actualChunks[2].slice(5)).toEqual(MESSAGE);
+            });
+
+            it('binds, reassembles and decrypts a message in reliable/ordered mode', () => {
+                const handler = {
+                    maxMessageSize: MAX_MESSAGE_SIZE,
+                } as saltyrtc.tasks.webrtc.SignalingTransportHandler;
+                // noinspection JSUnusedLocalSymbols
+                const [link, _] = createTransport(handler, 'reliable-ordered');
+
+                // Create nonce (cookie, data channel id: 1337, overflow: 0,
+                // sequence number: 42) and message
+                const cookie = new saltyrtcClient.Cookie(new Uint8Array(16).fill(255));
+                const nonce = new DataChannelNonce(cookie, ID, 0, 42);
+                const message = new Uint8Array(30);
+                message.set(nonce.toUint8Array());
+                message.set(MESSAGE, 24);
+
+                // Add first two chunks
+                link.receive(Uint8Array.of(6, ...message.subarray(0, 10)));
+                link.receive(Uint8Array.of(6, ...message.subarray(10, 20)));
+                expect(fakeSignaling.messages.length).toBe(0);
+
+                // Add last chunk
+                link.receive(Uint8Array.of(7, ...message.subarray(20, 30)));
+                expect(fakeSignaling.messages.length).toBe(1);
+                expect(fakeSignaling.messages[0]).toEqual(MESSAGE);
+            });
+
+            it('rejects chunks of the wrong chunking mode', () => {
+                const handler = {
+                    maxMessageSize: MAX_MESSAGE_SIZE,
+                    close: () => {},
+                } as saltyrtc.tasks.webrtc.SignalingTransportHandler;
+                const [link, transport] = createTransport(handler, 'reliable-ordered');
+
+                // Add unreliable/unordered chunk
+                link.receive(CHUNKS[0]);
+                expect(fakeTask.closed).toBeTruthy();
+                expect(transport.counters.chunkErrors).toBe(1);
+                expect(fakeTask.errors.map((error) => error.kind)).toEqual(['chunk-error']);
+            });
+
+            it('counts decryption failures', () => {
+                const handler = {
+                    maxMessageSize: MAX_MESSAGE_SIZE,
+                    close: () => {},
+                } as saltyrtc.tasks.webrtc.SignalingTransportHandler;
+                const [link, transport] = createTransport(handler, 'reliable-ordered');
+
+                // Create nonce with a foreign data channel id and message
+                const cookie = new saltyrtcClient.Cookie(new Uint8Array(16).fill(255));
+                const nonce = new DataChannelNonce(cookie, ID + 1, 0, 42);
+                const message = new Uint8Array(30);
+                message.set(nonce.toUint8Array());
+                message.set(MESSAGE, 24);
+
+                // Add message in a single chunk
+                link.receive(Uint8Array.of(7, ...message));
+                expect(fakeTask.closed).toBeTruthy();
+                expect(transport.counters.decryptFailures).toBe(1);
+                expect(fakeTask.errors.map((error) => error.kind)).toEqual(['decrypt-error']);
+                expect(transport.counters.messagesReceived).toBe(0);
             });
 
             it('closes on error correctly', () => {
@@ -186,6 +403,15 @@ export default () => {
 
                 // Ensure closed
                 expect(fakeTask.closed).toBeTruthy();
+
+                // Ensure the signalling has been closed as on a remote close
+                expect(fakeSignaling.state).toBe('closed');
+
+                // Ensure the cause has been reported
+                expect(fakeTask.errors.length).toBe(1);
+                expect(fakeTask.errors[0] instanceof SignalingTransportError).toBe(true);
+                expect(fakeTask.errors[0].kind).toBe('send-error');
+                expect(fakeTask.errors[0].cause.message).toBe('nope');
             });
 
             it('queues messages until handover requested by remote', () => {
@@ -218,6 +444,7 @@ export default () => {
 
                 // Expect messages to be queued
                 expect(fakeSignaling.messages.length).toBe(0);
+                expect(transport.counters.queuedMessages).toBe(1);
                 // @ts-ignore
                 expect(transport.messageQueue[0]).toEqual(MESSAGE);
 
@@ -233,6 +460,106 @@ export default () => {
                 expect(fakeSignaling.messages.length).toBe(1);
                 expect(fakeSignaling.messages[0]).toEqual(MESSAGE);
             });
+
+            describe('limits', function() {
+                const handler = {
+                    maxMessageSize: MAX_MESSAGE_SIZE,
+                    close: () => {},
+                } as saltyrtc.tasks.webrtc.SignalingTransportHandler;
+
+                // Create a reliable/ordered message (cookie, data channel id:
+                // 1337, overflow: 0, sequence number: csn)
+                const createMessage = (csn: number): Uint8Array => {
+                    const cookie = new saltyrtcClient.Cookie(new Uint8Array(16).fill(255));
+                    const nonce = new DataChannelNonce(cookie, ID, 0, csn);
+                    const message = new Uint8Array(30);
+                    message.set(nonce.toUint8Array());
+                    message.set(MESSAGE, 24);
+                    return message;
+                };
+
+                it('closes once the queued message limit has been exceeded', () => {
+                    fakeSignaling.handoverState.peer = false;
+                    const [link, transport] = createTransport(
+                        handler, 'reliable-ordered', {maxMessages: 1, maxBytes: 1024});
+                    link.receive(Uint8Array.of(7, ...createMessage(1)));
+                    expect(fakeTask.closed).toBe(false);
+                    link.receive(Uint8Array.of(7, ...createMessage(2)));
+                    expect(fakeTask.closed).toBe(true);
+                    expect(fakeTask.errors.map((error) => error.kind)).toEqual(['limit-exceeded']);
+                    expect(transport.counters.queuedMessages).toBe(1);
+                });
+
+                it('closes once the queued byte limit has been exceeded', () => {
+                    fakeSignaling.handoverState.peer = false;
+                    // noinspection JSUnusedLocalSymbols
+                    const [link, _] = createTransport(
+                        handler, 'reliable-ordered', {maxMessages: 8, maxBytes: 30});
+
+                    // Each decrypted message has 6 bytes
+                    for (let csn = 1; csn <= 5; ++csn) {
+                        link.receive(Uint8Array.of(7, ...createMessage(csn)));
+                    }
+                    expect(fakeTask.closed).toBe(false);
+                    link.receive(Uint8Array.of(7, ...createMessage(6)));
+                    expect(fakeTask.closed).toBe(true);
+                    expect(fakeTask.errors.map((error) => error.kind)).toEqual(['limit-exceeded']);
+                });
+
+                it('closes once the reassembly limit has been exceeded', () => {
+                    // noinspection JSUnusedLocalSymbols
+                    const [link, _] = createTransport(
+                        handler, 'reliable-ordered', {maxMessages: 8, maxBytes: 40});
+                    const message = createMessage(1);
+
+                    // Complete messages release their reassembled bytes
+                    link.receive(Uint8Array.of(7, ...message));
+                    link.receive(Uint8Array.of(6, ...message.subarray(0, 20)));
+                    expect(fakeTask.closed).toBe(false);
+
+                    // Exceed limit with pending chunks
+                    link.receive(Uint8Array.of(6, ...message.subarray(0, 21)));
+                    expect(fakeTask.closed).toBe(true);
+                    expect(fakeTask.errors.map((error) => error.kind)).toEqual(['limit-exceeded']);
+                });
+
+                it('rejects messages exceeding the maximum message size', () => {
+                    // noinspection JSUnusedLocalSymbols
+                    const [link, _] = createTransport(handler, 'reliable-ordered', undefined, 30);
+                    const message = createMessage(1);
+
+                    // Exactly the maximum message size
+                    link.receive(Uint8Array.of(6, ...message.subarray(0, 20)));
+                    link.receive(Uint8Array.of(7, ...message.subarray(20, 30)));
+                    expect(fakeSignaling.messages.length).toBe(1);
+
+                    // Exceeding the maximum message size
+                    link.receive(Uint8Array.of(6, ...message.subarray(0, 20)));
+                    link.receive(Uint8Array.of(7, ...message.subarray(20, 30), 0));
+                    expect(fakeSignaling.messages.length).toBe(1);
+                    expect(fakeTask.closed).toBe(true);
+                    expect(fakeTask.errors.map((error) => error.kind))
+                        .toEqual(['message-too-large']);
+                });
+
+                it('accounts the maximum message size per message id', () => {
+                    // noinspection JSUnusedLocalSymbols
+                    const [link, _] = createTransport(
+                        handler, 'unreliable-unordered', undefined, 4);
+
+                    // Interleave chunks of message 0 and 1
+                    link.receive(Uint8Array.of(0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 2));
+                    link.receive(Uint8Array.of(0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 2));
+                    link.receive(Uint8Array.of(0, 0, 0, 0, 0, 0, 0, 0, 1, 3, 4));
+                    expect(fakeTask.closed).toBe(false);
+
+                    // Exceed the maximum message size with message 0
+                    link.receive(Uint8Array.of(1, 0, 0, 0, 0, 0, 0, 0, 2, 5));
+                    expect(fakeTask.closed).toBe(true);
+                    expect(fakeTask.errors.map((error) => error.kind))
+                        .toEqual(['message-too-large']);
+                });
+            });
         });
     });
 }
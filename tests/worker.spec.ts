@@ -0,0 +1,172 @@
+/**
+ * Copyright (C) 2016-2022 Threema GmbH
+ *
+ * This software may be modified and distributed under the terms
+ * of the MIT license.  See the `LICENSE.md` file for details.
+ */
+
+/// <reference path="jasmine.d.ts" />
+
+import * as nacl from "tweetnacl";
+
+import {DataChannelCryptoContext} from "../src/crypto";
+import {DataChannelNonce} from "../src/nonce";
+import {CryptoWorker, serveCryptoWorker, WorkerCryptoContext} from "../src/worker";
+
+class FakeSignaling {
+    public encryptForPeer(data: Uint8Array, nonce: Uint8Array): saltyrtc.Box {
+        // Don't actually encrypt
+        return new saltyrtcClient.Box(nonce, data, DataChannelNonce.TOTAL_LENGTH);
+    };
+
+    public decryptFromPeer(box: saltyrtc.Box): Uint8Array {
+        // Don't actually decrypt
+        return box.data;
+    }
+}
+
+export default () => {
+    describe('worker', function() {
+        const MESSAGE = Uint8Array.of(1, 2, 3, 4);
+        let channel: MessageChannel;
+        let worker: CryptoWorker;
+        let batches: number;
+
+        beforeEach(() => {
+            // Serve crypto operations on the other end of a message channel
+            channel = new MessageChannel();
+            serveCryptoWorker(channel.port2);
+            worker = new CryptoWorker(channel.port1);
+            batches = 0;
+            const postMessage = channel.port1.postMessage.bind(channel.port1);
+            spyOn(channel.port1, 'postMessage').and.callFake((message, transfer) => {
+                ++batches;
+                postMessage(message, transfer);
+            });
+        });
+
+        afterEach(() => {
+            worker.close();
+            channel.port1.close();
+        });
+
+        describe('CryptoWorker', function() {
+            const nonce = nacl.randomBytes(24);
+            const key = nacl.randomBytes(32);
+
+            it('encrypts and decrypts', async () => {
+                const encrypted = await worker.encrypt(MESSAGE, nonce, key);
+                expect(encrypted).toEqual(nacl.secretbox(MESSAGE, nonce, key));
+                const decrypted = await worker.decrypt(
+                    encrypted, nonce, [nacl.randomBytes(32), key]);
+                expect(decrypted).toEqual(MESSAGE);
+            });
+
+            it('resolves to null if the data cannot be decrypted', async () => {
+                const encrypted = nacl.secretbox(MESSAGE, nonce, key);
+                expect(await worker.decrypt(encrypted, nonce, [nacl.randomBytes(32)])).toBeNull();
+            });
+
+            it('batches operations', async () => {
+                const results = await Promise.all([
+                    worker.encrypt(Uint8Array.of(1), nonce, key),
+                    worker.encrypt(Uint8Array.of(2), nonce, key),
+                    worker.encrypt(Uint8Array.of(3), nonce, key),
+                ]);
+                expect(batches).toBe(1);
+                expect(results[1]).toEqual(nacl.secretbox(Uint8Array.of(2), nonce, key));
+            });
+
+            it('does not detach the caller\'s buffers', async () => {
+                const data = Uint8Array.of(1, 2, 3);
+                await worker.encrypt(data, nonce, key);
+                expect(data).toEqual(Uint8Array.of(1, 2, 3));
+            });
+
+            it('rejects failed operations', async () => {
+                let error: Error;
+                await worker.encrypt(MESSAGE, nonce, new Uint8Array(1)).catch((e) => error = e);
+                expect(error.message).toContain('Crypto worker failed');
+            });
+
+            it('rejects pending operations when closed', async () => {
+                const result = worker.encrypt(MESSAGE, nonce, key);
+                worker.close();
+                let error: Error;
+                await result.catch((e) => error = e);
+                expect(error.message).toBe('Crypto worker has been closed');
+            });
+        });
+
+        describe('WorkerCryptoContext', function() {
+            const CHANNEL_ID = 1337;
+            let sender: DataChannelCryptoContext;
+            let receiver: DataChannelCryptoContext;
+
+            beforeEach(() => {
+                // @ts-ignore
+                const fakeSignaling = new FakeSignaling() as saltyrtc.Signaling;
+                sender = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling);
+                receiver = new DataChannelCryptoContext(CHANNEL_ID, fakeSignaling);
+            });
+
+            // Enable key rotation, so all messages are processed by the worker
+            const enableKeyRotation = () => {
+                const policy = {maxMessages: 0, maxAgeMs: 0};
+                sender.enableKeyRotation(policy, () => undefined);
+                receiver.enableKeyRotation(policy, () => undefined);
+            };
+
+            it('processes messages with derived keys in the worker', async () => {
+                enableKeyRotation();
+                const box = await new WorkerCryptoContext(sender, worker).encrypt(MESSAGE);
+                expect(box.data).not.toEqual(MESSAGE);
+                expect(await new WorkerCryptoContext(receiver, worker).decrypt(box))
+                    .toEqual(MESSAGE);
+                expect(batches).toBe(2);
+            });
+
+            it('processes messages with the session key on the calling thread', async () => {
+                const box = await new WorkerCryptoContext(sender, worker).encrypt(MESSAGE);
+                expect(await new WorkerCryptoContext(receiver, worker).decrypt(box))
+                    .toEqual(MESSAGE);
+                expect(batches).toBe(0);
+            });
+
+            it('is compatible with a crypto context', async () => {
+                enableKeyRotation();
+                const box = await new WorkerCryptoContext(sender, worker).encrypt(MESSAGE);
+                expect(receiver.decrypt(box)).toEqual(MESSAGE);
+            });
+
+            it('preserves the order', async () => {
+                enableKeyRotation();
+                const senderContext = new WorkerCryptoContext(sender, worker);
+                const receiverContext = new WorkerCryptoContext(receiver, worker);
+                const boxes = await Promise.all([1, 2, 3].map(
+                    (i) => senderContext.encrypt(Uint8Array.of(i))));
+                const csns = boxes.map(
+                    (box) => DataChannelNonce.fromUint8Array(box.nonce).combinedSequenceNumber);
+                expect(csns[1]).toBe(csns[0] + 1);
+                expect(csns[2]).toBe(csns[1] + 1);
+
+                const order = [];
+                await Promise.all(boxes.map((box) => receiverContext.decrypt(box)
+                    .then((data) => order.push(data[0]))));
+                expect(order).toEqual([1, 2, 3]);
+            });
+
+            it('detects replays of concurrently decrypted messages', async () => {
+                enableKeyRotation();
+                const box = await new WorkerCryptoContext(sender, worker).encrypt(MESSAGE);
+                const receiverContext = new WorkerCryptoContext(receiver, worker);
+                const first = receiverContext.decrypt(box);
+                const second = receiverContext.decrypt(box);
+                expect(await first).toEqual(MESSAGE);
+                let error: Error;
+                await second.catch((e) => error = e);
+                expect(error.message).toBe('CSN reuse detected');
+            });
+        });
+    });
+}